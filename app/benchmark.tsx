@@ -0,0 +1,18 @@
+import { useMemo } from 'react';
+import { useWindowDimensions } from 'react-native';
+import { Redirect } from 'expo-router';
+import { SketchScreen } from '../src/screens/SketchScreen';
+import { generateBenchmarkLayers } from '../src/utils/benchmarkUtils';
+
+function BenchmarkScreen() {
+  const { width, height } = useWindowDimensions();
+  // Généré une seule fois : le dessin ne doit pas changer si l'écran tourne
+  const layers = useMemo(() => generateBenchmarkLayers(width, height), []);
+
+  return <SketchScreen drawingName="Benchmark" initialLayers={layers} benchmark />;
+}
+
+/** Outil de développement : la route n'existe pas en production */
+export default function Benchmark() {
+  return __DEV__ ? <BenchmarkScreen /> : <Redirect href="/" />;
+}
@@ -3,18 +3,20 @@ import { useLocalSearchParams } from 'expo-router';
 import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import { SketchScreen } from '../../src/screens/SketchScreen';
 import { useDrawingStorage } from '../../src/hooks/useDrawingStorage';
-import { Stroke } from '../../src/types';
+import { GridSettings, Layer } from '../../src/types';
 
 export default function EditSketch() {
   const { id, name } = useLocalSearchParams<{ id: string; name: string }>();
   const { loadDrawingById } = useDrawingStorage();
-  const [initialStrokes, setInitialStrokes] = useState<Stroke[] | null>(null);
+  const [initialLayers, setInitialLayers] = useState<Layer[] | null>(null);
+  const [initialGrid, setInitialGrid] = useState<GridSettings | undefined>(undefined);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (!id) return;
     loadDrawingById(id).then(drawing => {
-      setInitialStrokes(drawing?.strokes ?? []);
+      setInitialLayers(drawing?.layers ?? []);
+      setInitialGrid(drawing?.grid);
       setLoading(false);
     });
   }, [id]);
@@ -31,7 +33,8 @@ export default function EditSketch() {
     <SketchScreen
       drawingId={id}
       drawingName={name || 'Sans titre'}
-      initialStrokes={initialStrokes || []}
+      initialLayers={initialLayers || []}
+      initialGrid={initialGrid}
     />
   );
 }
@@ -10,15 +10,61 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Slider from '@react-native-community/slider';
-import { BrushType } from '../types';
+import {
+  BrushType,
+  EraserMode,
+  MarkerMode,
+  NibSettings,
+  SelectionCombine,
+  SelectionMatchMode,
+  SelectionShape,
+  ShapeOptions,
+  ShapeType,
+  StabilizerMode,
+  StabilizerSettings,
+} from '../types';
+import { isClosedShape, isShapeType, SHAPE_TYPES } from '../utils/shapeUtils';
 
-// Palette de couleurs prédéfinies
-const PRESET_COLORS = [
+// Palette de couleurs prédéfinies (partagée avec le panneau de sélection)
+export const PRESET_COLORS = [
   '#000000', '#FFFFFF', '#FF3B30', '#FF9500',
   '#FFCC00', '#4CD964', '#5AC8FA', '#007AFF',
   '#5856D6', '#FF2D55', '#8B4513', '#808080',
 ];
 
+const SHAPE_ICONS: Record<ShapeType, keyof typeof Ionicons.glyphMap> = {
+  line: 'remove-outline',
+  rectangle: 'square-outline',
+  ellipse: 'ellipse-outline',
+  arrow: 'arrow-forward-outline',
+  polygon: 'triangle-outline',
+};
+
+const SELECTION_SHAPES: { value: SelectionShape; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'rect', label: 'Rectangle', icon: 'scan-outline' },
+  { value: 'lasso', label: 'Lasso', icon: 'infinite-outline' },
+];
+
+const SELECTION_COMBINES: { value: SelectionCombine; label: string }[] = [
+  { value: 'replace', label: 'Remplacer' },
+  { value: 'add', label: 'Ajouter' },
+  { value: 'subtract', label: 'Retirer' },
+];
+
+const STABILIZER_MODES: { value: StabilizerMode; label: string }[] = [
+  { value: 'none', label: 'Aucun' },
+  { value: 'string', label: 'Corde' },
+  { value: 'average', label: 'Moyenne' },
+];
+
+const SHAPE_LABELS: Record<ShapeType, string> = {
+  line: 'Ligne',
+  rectangle: 'Rect.',
+  ellipse: 'Ellipse',
+  arrow: 'Flèche',
+  polygon: 'Polyg.',
+};
+
 interface ToolbarProps {
   currentTool: BrushType;
   currentColor: string;
@@ -26,6 +72,22 @@ interface ToolbarProps {
   onToolChange: (tool: BrushType) => void;
   onColorChange: (color: string) => void;
   onWidthChange: (width: number) => void;
+  eraserMode: EraserMode;
+  onEraserModeChange: (mode: EraserMode) => void;
+  shapeOptions: ShapeOptions;
+  onShapeOptionsChange: (patch: Partial<ShapeOptions>) => void;
+  nib: NibSettings;
+  onNibChange: (patch: Partial<NibSettings>) => void;
+  stabilizer: StabilizerSettings;
+  onStabilizerChange: (patch: Partial<StabilizerSettings>) => void;
+  markerMode: MarkerMode;
+  onMarkerModeChange: (mode: MarkerMode) => void;
+  selectionMatch: SelectionMatchMode;
+  onSelectionMatchChange: (mode: SelectionMatchMode) => void;
+  selectionShape: SelectionShape;
+  onSelectionShapeChange: (shape: SelectionShape) => void;
+  selectionCombine: SelectionCombine;
+  onSelectionCombineChange: (combine: SelectionCombine) => void;
 }
 
 interface ToolButtonProps {
@@ -60,9 +122,34 @@ export function DrawingToolbar({
   onToolChange,
   onColorChange,
   onWidthChange,
+  eraserMode,
+  onEraserModeChange,
+  shapeOptions,
+  onShapeOptionsChange,
+  nib,
+  onNibChange,
+  stabilizer,
+  onStabilizerChange,
+  markerMode,
+  onMarkerModeChange,
+  selectionMatch,
+  onSelectionMatchChange,
+  selectionShape,
+  onSelectionShapeChange,
+  selectionCombine,
+  onSelectionCombineChange,
 }: ToolbarProps) {
   const [showSettings, setShowSettings] = useState(false);
-  const isDrawingTool = ['pen', 'marker', 'calligraphy'].includes(currentTool);
+  // Dernière forme utilisée : le bouton "Formes" la réactive directement
+  const [lastShape, setLastShape] = useState<ShapeType>('rectangle');
+  const isShapeTool = isShapeType(currentTool);
+  const isFreehandTool = ['pen', 'marker', 'calligraphy'].includes(currentTool);
+  const isDrawingTool = isFreehandTool || isShapeTool;
+  const isEraser = currentTool === 'eraser';
+  // Texte : seule la couleur se règle ici, la taille se choisit à la saisie
+  const isTextTool = currentTool === 'text';
+  const isSelectTool = currentTool === 'select';
+  const hasSettings = isDrawingTool || isEraser || isTextTool || isSelectTool;
 
   return (
     <>
@@ -86,6 +173,18 @@ export function DrawingToolbar({
           isActive={currentTool === 'calligraphy'}
           onPress={() => onToolChange('calligraphy')}
         />
+        <ToolButton
+          icon={SHAPE_ICONS[isShapeTool ? currentTool : lastShape]}
+          label="Formes"
+          isActive={isShapeTool}
+          onPress={() => (isShapeTool ? setShowSettings(true) : onToolChange(lastShape))}
+        />
+        <ToolButton
+          icon="text-outline"
+          label="Texte"
+          isActive={isTextTool}
+          onPress={() => onToolChange('text')}
+        />
 
         <View style={styles.divider} />
 
@@ -98,16 +197,16 @@ export function DrawingToolbar({
         <ToolButton
           icon="move-outline"
           label="Sélect."
-          isActive={currentTool === 'select'}
-          onPress={() => onToolChange('select')}
+          isActive={isSelectTool}
+          onPress={() => (isSelectTool ? setShowSettings(true) : onToolChange('select'))}
         />
 
         <View style={styles.divider} />
 
         {/* Bouton couleur + épaisseur */}
         <TouchableOpacity
-          style={[styles.colorBtn, !isDrawingTool && styles.colorBtnDisabled]}
-          onPress={() => isDrawingTool && setShowSettings(true)}
+          style={[styles.colorBtn, !hasSettings && styles.colorBtnDisabled]}
+          onPress={() => hasSettings && setShowSettings(true)}
           activeOpacity={0.7}
         >
           <View style={[styles.colorPreview, { backgroundColor: currentColor }]} />
@@ -126,53 +225,335 @@ export function DrawingToolbar({
           <Pressable style={styles.settingsPanel} onPress={e => e.stopPropagation()}>
             <View style={styles.settingsHandle} />
 
-            <Text style={styles.settingsTitle}>Couleur</Text>
-            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.colorRow}>
-              {PRESET_COLORS.map(c => (
-                <TouchableOpacity
-                  key={c}
-                  style={[
-                    styles.colorDot,
-                    { backgroundColor: c },
-                    c === currentColor && styles.colorDotSelected,
-                    c === '#FFFFFF' && styles.colorDotWhite,
-                  ]}
-                  onPress={() => onColorChange(c)}
-                />
-              ))}
-            </ScrollView>
+            {isSelectTool ? (
+              <>
+                <Text style={styles.settingsTitle}>Zone de sélection</Text>
+                <View style={styles.segmentRow}>
+                  {SELECTION_SHAPES.map(opt => (
+                    <TouchableOpacity
+                      key={opt.value}
+                      style={[styles.segment, selectionShape === opt.value && styles.segmentActive]}
+                      onPress={() => onSelectionShapeChange(opt.value)}
+                    >
+                      <Ionicons
+                        name={opt.icon}
+                        size={18}
+                        color={selectionShape === opt.value ? '#FF8C00' : '#A0AEC0'}
+                      />
+                      <Text style={[styles.segmentLabel, selectionShape === opt.value && styles.segmentTextActive]}>
+                        {opt.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.settingsTitle}>Sélection courante</Text>
+                <View style={styles.segmentRow}>
+                  {SELECTION_COMBINES.map(opt => (
+                    <TouchableOpacity
+                      key={opt.value}
+                      style={[styles.segment, selectionCombine === opt.value && styles.segmentActive]}
+                      onPress={() => onSelectionCombineChange(opt.value)}
+                    >
+                      <Text style={[styles.segmentText, selectionCombine === opt.value && styles.segmentTextActive]}>
+                        {opt.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.settingsTitle}>Tracés retenus</Text>
+                <View style={styles.segmentRow}>
+                  <TouchableOpacity
+                    style={[styles.segment, selectionMatch === 'touch' && styles.segmentActive]}
+                    onPress={() => onSelectionMatchChange('touch')}
+                  >
+                    <Text style={[styles.segmentText, selectionMatch === 'touch' && styles.segmentTextActive]}>
+                      Tracés touchés
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.segment, selectionMatch === 'contain' && styles.segmentActive]}
+                    onPress={() => onSelectionMatchChange('contain')}
+                  >
+                    <Text style={[styles.segmentText, selectionMatch === 'contain' && styles.segmentTextActive]}>
+                      Entièrement contenus
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : isEraser ? (
+              <>
+                <Text style={styles.settingsTitle}>Mode de gomme</Text>
+                <View style={styles.segmentRow}>
+                  <TouchableOpacity
+                    style={[styles.segment, eraserMode === 'stroke' && styles.segmentActive]}
+                    onPress={() => onEraserModeChange('stroke')}
+                  >
+                    <Text style={[styles.segmentText, eraserMode === 'stroke' && styles.segmentTextActive]}>
+                      Tracé entier
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.segment, eraserMode === 'partial' && styles.segmentActive]}
+                    onPress={() => onEraserModeChange('partial')}
+                  >
+                    <Text style={[styles.segmentText, eraserMode === 'partial' && styles.segmentTextActive]}>
+                      Partielle
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <>
+                {isShapeTool && (
+                  <>
+                    <Text style={styles.settingsTitle}>Forme</Text>
+                    <View style={styles.segmentRow}>
+                      {SHAPE_TYPES.map(shape => (
+                        <TouchableOpacity
+                          key={shape}
+                          style={[styles.segment, currentTool === shape && styles.segmentActive]}
+                          onPress={() => {
+                            setLastShape(shape);
+                            onToolChange(shape);
+                          }}
+                        >
+                          <Ionicons
+                            name={SHAPE_ICONS[shape]}
+                            size={18}
+                            color={currentTool === shape ? '#FF8C00' : '#A0AEC0'}
+                          />
+                          <Text style={[styles.segmentLabel, currentTool === shape && styles.segmentTextActive]}>
+                            {SHAPE_LABELS[shape]}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+
+                    <View style={styles.segmentRow}>
+                      <TouchableOpacity
+                        style={[
+                          styles.segment,
+                          shapeOptions.filled && styles.segmentActive,
+                          !isClosedShape(currentTool) && styles.colorBtnDisabled,
+                        ]}
+                        onPress={() => onShapeOptionsChange({ filled: !shapeOptions.filled })}
+                        disabled={!isClosedShape(currentTool)}
+                      >
+                        <Text style={[styles.segmentText, shapeOptions.filled && styles.segmentTextActive]}>
+                          Remplir
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.segment, shapeOptions.constrain && styles.segmentActive]}
+                        onPress={() => onShapeOptionsChange({ constrain: !shapeOptions.constrain })}
+                      >
+                        <Text style={[styles.segmentText, shapeOptions.constrain && styles.segmentTextActive]}>
+                          Contrainte (Maj)
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+
+                    {currentTool === 'polygon' && (
+                      <>
+                        <Text style={styles.settingsTitle}>Côtés — {shapeOptions.polygonSides}</Text>
+                        <View style={styles.sliderRow}>
+                          <Text style={styles.sliderLabel}>3</Text>
+                          <Slider
+                            style={styles.slider}
+                            minimumValue={3}
+                            maximumValue={12}
+                            step={1}
+                            value={shapeOptions.polygonSides}
+                            onValueChange={v => onShapeOptionsChange({ polygonSides: v })}
+                            minimumTrackTintColor="#FF8C00"
+                            maximumTrackTintColor="#3A4055"
+                            thumbTintColor="#FF8C00"
+                          />
+                          <Text style={styles.sliderLabel}>12</Text>
+                        </View>
+                      </>
+                    )}
+                  </>
+                )}
 
-            <Text style={styles.settingsTitle}>Épaisseur — {currentWidth}px</Text>
-            <View style={styles.sliderRow}>
-              <Text style={styles.sliderLabel}>1</Text>
-              <Slider
-                style={styles.slider}
-                minimumValue={1}
-                maximumValue={40}
-                step={1}
-                value={currentWidth}
-                onValueChange={onWidthChange}
-                minimumTrackTintColor="#FF8C00"
-                maximumTrackTintColor="#3A4055"
-                thumbTintColor="#FF8C00"
-              />
-              <Text style={styles.sliderLabel}>40</Text>
-            </View>
+                <Text style={styles.settingsTitle}>Couleur</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.colorRow}>
+                  {PRESET_COLORS.map(c => (
+                    <TouchableOpacity
+                      key={c}
+                      style={[
+                        styles.colorDot,
+                        { backgroundColor: c },
+                        c === currentColor && styles.colorDotSelected,
+                        c === '#FFFFFF' && styles.colorDotWhite,
+                      ]}
+                      onPress={() => onColorChange(c)}
+                    />
+                  ))}
+                </ScrollView>
+              </>
+            )}
+
+            {!isTextTool && (
+              <>
+                <Text style={styles.settingsTitle}>
+                  {isEraser ? `Rayon de la gomme partielle — ${currentWidth}px` : `Épaisseur — ${currentWidth}px`}
+                </Text>
+                <View style={styles.sliderRow}>
+                  <Text style={styles.sliderLabel}>1</Text>
+                  <Slider
+                    style={styles.slider}
+                    minimumValue={1}
+                    maximumValue={40}
+                    step={1}
+                    value={currentWidth}
+                    onValueChange={onWidthChange}
+                    minimumTrackTintColor="#FF8C00"
+                    maximumTrackTintColor="#3A4055"
+                    thumbTintColor="#FF8C00"
+                  />
+                  <Text style={styles.sliderLabel}>40</Text>
+                </View>
+              </>
+            )}
+
+            {/* Stabilisateur des tracés à main levée */}
+            {isFreehandTool && (
+              <>
+                <Text style={styles.settingsTitle}>
+                  {stabilizer.mode === 'none'
+                    ? 'Stabilisateur'
+                    : `Stabilisateur — ${Math.round(stabilizer.strength * 100)}%`}
+                </Text>
+                <View style={styles.segmentRow}>
+                  {STABILIZER_MODES.map(opt => (
+                    <TouchableOpacity
+                      key={opt.value}
+                      style={[styles.segment, stabilizer.mode === opt.value && styles.segmentActive]}
+                      onPress={() => onStabilizerChange({ mode: opt.value })}
+                    >
+                      <Text style={[styles.segmentText, stabilizer.mode === opt.value && styles.segmentTextActive]}>
+                        {opt.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {stabilizer.mode !== 'none' && (
+                  <View style={styles.sliderRow}>
+                    <Text style={styles.sliderLabel}>10%</Text>
+                    <Slider
+                      style={styles.slider}
+                      minimumValue={0.1}
+                      maximumValue={1}
+                      step={0.05}
+                      value={stabilizer.strength}
+                      onValueChange={strength => onStabilizerChange({ strength })}
+                      minimumTrackTintColor="#FF8C00"
+                      maximumTrackTintColor="#3A4055"
+                      thumbTintColor="#FF8C00"
+                    />
+                    <Text style={styles.sliderLabel}>100%</Text>
+                  </View>
+                )}
+              </>
+            )}
+
+            {/* Marker : surligneur uniforme ou encre qui s'accumule aux croisements */}
+            {currentTool === 'marker' && (
+              <>
+                <Text style={styles.settingsTitle}>Superposition</Text>
+                <View style={styles.segmentRow}>
+                  <TouchableOpacity
+                    style={[styles.segment, markerMode === 'highlight' && styles.segmentActive]}
+                    onPress={() => onMarkerModeChange('highlight')}
+                  >
+                    <Text style={[styles.segmentText, markerMode === 'highlight' && styles.segmentTextActive]}>
+                      Surligneur
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.segment, markerMode === 'buildup' && styles.segmentActive]}
+                    onPress={() => onMarkerModeChange('buildup')}
+                  >
+                    <Text style={[styles.segmentText, markerMode === 'buildup' && styles.segmentTextActive]}>
+                      Accumulation
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+
+            {/* Plume de la calligraphie : inclinaison et épaisseur */}
+            {currentTool === 'calligraphy' && (
+              <>
+                <View style={styles.nibTitleRow}>
+                  <Text style={styles.settingsTitle}>
+                    Angle de la plume — {Math.round((nib.angle * 180) / Math.PI)}°
+                  </Text>
+                  <View
+                    style={[
+                      styles.nibPreview,
+                      {
+                        backgroundColor: currentColor,
+                        height: Math.max(2, 24 * nib.aspect),
+                        transform: [{ rotate: `${nib.angle}rad` }],
+                      },
+                    ]}
+                  />
+                </View>
+                <View style={styles.sliderRow}>
+                  <Text style={styles.sliderLabel}>0°</Text>
+                  <Slider
+                    style={styles.slider}
+                    minimumValue={0}
+                    maximumValue={180}
+                    step={5}
+                    value={Math.round((nib.angle * 180) / Math.PI)}
+                    onValueChange={deg => onNibChange({ angle: (deg * Math.PI) / 180 })}
+                    minimumTrackTintColor="#FF8C00"
+                    maximumTrackTintColor="#3A4055"
+                    thumbTintColor="#FF8C00"
+                  />
+                  <Text style={styles.sliderLabel}>180°</Text>
+                </View>
+
+                <Text style={styles.settingsTitle}>Épaisseur de la plume — {Math.round(nib.aspect * 100)}%</Text>
+                <View style={styles.sliderRow}>
+                  <Text style={styles.sliderLabel}>5%</Text>
+                  <Slider
+                    style={styles.slider}
+                    minimumValue={0.05}
+                    maximumValue={1}
+                    step={0.05}
+                    value={nib.aspect}
+                    onValueChange={aspect => onNibChange({ aspect })}
+                    minimumTrackTintColor="#FF8C00"
+                    maximumTrackTintColor="#3A4055"
+                    thumbTintColor="#FF8C00"
+                  />
+                  <Text style={styles.sliderLabel}>100%</Text>
+                </View>
+              </>
+            )}
 
             {/* Aperçu du tracé */}
-            <View style={styles.previewRow}>
-              <View
-                style={[
-                  styles.previewLine,
-                  {
-                    height: Math.max(2, currentWidth),
-                    backgroundColor: currentColor,
-                    opacity: currentTool === 'marker' ? 0.5 : 1,
-                    borderRadius: currentWidth / 2,
-                  },
-                ]}
-              />
-            </View>
+            {!isEraser && !isShapeTool && !isTextTool && currentTool !== 'calligraphy' && (
+              <View style={styles.previewRow}>
+                <View
+                  style={[
+                    styles.previewLine,
+                    {
+                      height: Math.max(2, currentWidth),
+                      backgroundColor: currentColor,
+                      opacity: currentTool === 'marker' ? 0.5 : 1,
+                      borderRadius: currentWidth / 2,
+                    },
+                  ]}
+                />
+              </View>
+            )}
 
             <TouchableOpacity
               style={styles.closeBtn}
@@ -291,6 +672,36 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#3A4055',
   },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 24,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2A3350',
+    alignItems: 'center',
+  },
+  segmentActive: {
+    borderColor: '#FF8C00',
+    backgroundColor: '#FF8C0020',
+  },
+  segmentText: {
+    color: '#A0AEC0',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  segmentLabel: {
+    color: '#A0AEC0',
+    fontSize: 10,
+    marginTop: 2,
+  },
+  segmentTextActive: {
+    color: '#FF8C00',
+  },
   sliderRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -306,6 +717,15 @@ const styles = StyleSheet.create({
     width: 24,
     textAlign: 'center',
   },
+  nibTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  nibPreview: {
+    width: 24,
+    marginRight: 8,
+    marginTop: 4,
+  },
   previewRow: {
     height: 44,
     justifyContent: 'center',
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, TouchableOpacity } from 'react-native';
+import { ExportFormat, ExportOptions } from '../types';
+
+interface ExportSheetProps {
+  visible: boolean;
+  isExporting: boolean;
+  /** Le dessin a une grille visible : propose de l'exporter */
+  hasGrid: boolean;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'svg', label: 'SVG' },
+];
+
+const SCALES: ExportOptions['scale'][] = [1, 2, 4];
+
+function Segment<T>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <View style={styles.segmentRow}>
+      {options.map(opt => (
+        <TouchableOpacity
+          key={opt.label}
+          style={[styles.segment, opt.value === value && styles.segmentActive]}
+          onPress={() => onChange(opt.value)}
+        >
+          <Text style={[styles.segmentText, opt.value === value && styles.segmentTextActive]}>{opt.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Feuille d'export : format, résolution et fond (PNG), recadrage sur le contenu,
+ * grille (seulement si le dessin en a une).
+ * Les réglages sont conservés d'un export à l'autre.
+ */
+export function ExportSheet({ visible, isExporting, hasGrid, onExport, onClose }: ExportSheetProps) {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'png',
+    scale: 2,
+    background: 'white',
+    cropToContent: false,
+    includeGrid: false,
+  });
+  const update = (patch: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.modalOverlay} onPress={onClose}>
+        <Pressable style={styles.panel} onPress={e => e.stopPropagation()}>
+          <View style={styles.handle} />
+
+          <Text style={styles.title}>Format</Text>
+          <Segment options={FORMATS} value={options.format} onChange={format => update({ format })} />
+
+          {options.format === 'png' && (
+            <>
+              <Text style={styles.title}>Résolution</Text>
+              <Segment
+                options={SCALES.map(scale => ({ value: scale, label: `${scale}x` }))}
+                value={options.scale}
+                onChange={scale => update({ scale })}
+              />
+
+              <Text style={styles.title}>Fond</Text>
+              <Segment
+                options={[
+                  { value: 'white' as const, label: 'Blanc' },
+                  { value: 'transparent' as const, label: 'Transparent' },
+                ]}
+                value={options.background}
+                onChange={background => update({ background })}
+              />
+            </>
+          )}
+
+          <Text style={styles.title}>Zone</Text>
+          <Segment
+            options={[
+              { value: false, label: 'Canvas entier' },
+              { value: true, label: 'Recadrer sur le contenu' },
+            ]}
+            value={options.cropToContent}
+            onChange={cropToContent => update({ cropToContent })}
+          />
+
+          {hasGrid && (
+            <>
+              <Text style={styles.title}>Grille</Text>
+              <Segment
+                options={[
+                  { value: false, label: 'Masquée' },
+                  { value: true, label: 'Exportée' },
+                ]}
+                value={options.includeGrid}
+                onChange={includeGrid => update({ includeGrid })}
+              />
+            </>
+          )}
+
+          <TouchableOpacity
+            style={[styles.exportBtn, isExporting && styles.exportBtnDisabled]}
+            onPress={() => onExport({ ...options, includeGrid: hasGrid && options.includeGrid })}
+            disabled={isExporting}
+          >
+            <Text style={styles.exportBtnText}>{isExporting ? 'Export…' : 'Exporter'}</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  panel: {
+    backgroundColor: '#1A2035',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 36,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#3A4055',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#A0AEC0',
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    marginBottom: 12,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2A3350',
+    alignItems: 'center',
+  },
+  segmentActive: {
+    borderColor: '#FF8C00',
+    backgroundColor: '#FF8C0020',
+  },
+  segmentText: {
+    color: '#A0AEC0',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  segmentTextActive: {
+    color: '#FF8C00',
+  },
+  exportBtn: {
+    backgroundColor: '#FF8C00',
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  exportBtnDisabled: {
+    opacity: 0.5,
+  },
+  exportBtnText: {
+    color: '#FFF',
+    fontWeight: '700',
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,148 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, Pressable, TouchableOpacity } from 'react-native';
+import { GridSettings, GridType } from '../types';
+import { GRID_SIZES } from '../utils/gridUtils';
+
+interface GridSheetProps {
+  visible: boolean;
+  grid: GridSettings;
+  onChange: (patch: Partial<GridSettings>) => void;
+  onClose: () => void;
+}
+
+const GRID_TYPES: { value: GridType; label: string }[] = [
+  { value: 'none', label: 'Aucune' },
+  { value: 'square', label: 'Carrée' },
+  { value: 'dot', label: 'Points' },
+  { value: 'isometric', label: 'Isométrique' },
+];
+
+function Segment<T>({
+  options,
+  isActive,
+  onPress,
+}: {
+  options: { value: T; label: string }[];
+  isActive: (value: T) => boolean;
+  onPress: (value: T) => void;
+}) {
+  return (
+    <View style={styles.segmentRow}>
+      {options.map(opt => (
+        <TouchableOpacity
+          key={opt.label}
+          style={[styles.segment, isActive(opt.value) && styles.segmentActive]}
+          onPress={() => onPress(opt.value)}
+        >
+          <Text style={[styles.segmentText, isActive(opt.value) && styles.segmentTextActive]}>{opt.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+/**
+ * Feuille de grille : type et pas de la grille, aimantation (grille et bords
+ * des tracés, indépendantes), règles. Les réglages sont ceux du dessin.
+ */
+export function GridSheet({ visible, grid, onChange, onClose }: GridSheetProps) {
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.modalOverlay} onPress={onClose}>
+        <Pressable style={styles.panel} onPress={e => e.stopPropagation()}>
+          <View style={styles.handle} />
+
+          <Text style={styles.title}>Grille</Text>
+          <Segment options={GRID_TYPES} isActive={type => grid.type === type} onPress={type => onChange({ type })} />
+
+          {grid.type !== 'none' && (
+            <>
+              <Text style={styles.title}>Pas</Text>
+              <Segment
+                options={GRID_SIZES.map(size => ({ value: size, label: `${size}` }))}
+                isActive={size => grid.size === size}
+                onPress={size => onChange({ size })}
+              />
+            </>
+          )}
+
+          <Text style={styles.title}>Aimantation</Text>
+          <Segment
+            options={[
+              ...(grid.type !== 'none' ? [{ value: 'snapToGrid' as const, label: 'Sur la grille' }] : []),
+              { value: 'snapToStrokes' as const, label: 'Sur les tracés' },
+            ]}
+            isActive={key => grid[key]}
+            onPress={key => onChange({ [key]: !grid[key] })}
+          />
+
+          <Text style={styles.title}>Règles</Text>
+          <Segment
+            options={[
+              { value: false, label: 'Masquées' },
+              { value: true, label: 'Affichées' },
+            ]}
+            isActive={showRulers => grid.showRulers === showRulers}
+            onPress={showRulers => onChange({ showRulers })}
+          />
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  panel: {
+    backgroundColor: '#1A2035',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 16,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#3A4055',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#A0AEC0',
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    marginBottom: 12,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2A3350',
+    alignItems: 'center',
+  },
+  segmentActive: {
+    borderColor: '#FF8C00',
+    backgroundColor: '#FF8C0020',
+  },
+  segmentText: {
+    color: '#A0AEC0',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  segmentTextActive: {
+    color: '#FF8C00',
+  },
+});
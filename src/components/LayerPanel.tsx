@@ -0,0 +1,290 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Slider from '@react-native-community/slider';
+import { Layer } from '../types';
+import { LayerPatch } from '../hooks/useSketchpad';
+
+interface LayerPanelProps {
+  layers: Layer[];
+  activeLayerId: string;
+  onSelectLayer: (id: string) => void;
+  onAddLayer: () => void;
+  onRemoveLayer: (id: string) => void;
+  onUpdateLayer: (id: string, patch: LayerPatch) => void;
+  onMoveLayer: (id: string, direction: 1 | -1) => void;
+  onClose: () => void;
+}
+
+const ACTIVE_BORDER = '#FF8C00';
+
+function LayerRow({
+  layer,
+  isActive,
+  canMoveUp,
+  canMoveDown,
+  canRemove,
+  onSelect,
+  onUpdate,
+  onMove,
+  onRemove,
+}: {
+  layer: Layer;
+  isActive: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  canRemove: boolean;
+  onSelect: () => void;
+  onUpdate: (patch: LayerPatch) => void;
+  onMove: (direction: 1 | -1) => void;
+  onRemove: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(layer.name);
+
+  const commitName = () => {
+    setIsEditing(false);
+    const trimmed = draftName.trim();
+    if (trimmed && trimmed !== layer.name) onUpdate({ name: trimmed });
+    else setDraftName(layer.name);
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.row, isActive && styles.rowActive]}
+      onPress={onSelect}
+      onLongPress={() => setIsEditing(true)}
+      activeOpacity={0.8}
+    >
+      <TouchableOpacity style={styles.rowBtn} onPress={() => onUpdate({ visible: !layer.visible })}>
+        <Ionicons name={layer.visible ? 'eye-outline' : 'eye-off-outline'} size={16} color="#A0AEC0" />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.rowBtn} onPress={() => onUpdate({ locked: !layer.locked })}>
+        <Ionicons
+          name={layer.locked ? 'lock-closed' : 'lock-open-outline'}
+          size={16}
+          color={layer.locked ? '#FF8C00' : '#A0AEC0'}
+        />
+      </TouchableOpacity>
+
+      {/* Nom (appui long pour renommer) */}
+      {isEditing ? (
+        <TextInput
+          style={styles.nameInput}
+          value={draftName}
+          onChangeText={setDraftName}
+          onSubmitEditing={commitName}
+          onBlur={commitName}
+          autoFocus
+          selectTextOnFocus
+        />
+      ) : (
+        <Text style={[styles.name, !layer.visible && styles.nameHidden]} numberOfLines={1}>
+          {layer.name}
+        </Text>
+      )}
+      <Text style={styles.count}>{layer.strokes.length}</Text>
+
+      <TouchableOpacity style={styles.rowBtn} onPress={() => onMove(1)} disabled={!canMoveUp}>
+        <Ionicons name="chevron-up" size={16} color={canMoveUp ? '#A0AEC0' : '#3A4055'} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.rowBtn} onPress={() => onMove(-1)} disabled={!canMoveDown}>
+        <Ionicons name="chevron-down" size={16} color={canMoveDown ? '#A0AEC0' : '#3A4055'} />
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.rowBtn} onPress={onRemove} disabled={!canRemove}>
+        <Ionicons name="trash-outline" size={16} color={canRemove ? '#FF3B30' : '#3A4055'} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+}
+
+export function LayerPanel({
+  layers,
+  activeLayerId,
+  onSelectLayer,
+  onAddLayer,
+  onRemoveLayer,
+  onUpdateLayer,
+  onMoveLayer,
+  onClose,
+}: LayerPanelProps) {
+  const activeLayer = layers.find(l => l.id === activeLayerId);
+  // Valeur locale pendant le glissement : une seule mise à jour (et un seul undo) au relâchement
+  const [opacity, setOpacity] = useState(activeLayer?.opacity ?? 1);
+
+  useEffect(() => {
+    setOpacity(activeLayer?.opacity ?? 1);
+  }, [activeLayer?.id, activeLayer?.opacity]);
+
+  // Affichage du calque du dessus vers celui du dessous
+  const displayed = [...layers].reverse();
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Calques</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.addBtn} onPress={onAddLayer}>
+            <Ionicons name="add" size={14} color="#FF8C00" />
+            <Text style={styles.addBtnText}>Ajouter</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.closeBtn} onPress={onClose}>
+            <Ionicons name="close" size={18} color="#A0AEC0" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+        {displayed.map(layer => {
+          const index = layers.indexOf(layer);
+          return (
+            <LayerRow
+              key={layer.id}
+              layer={layer}
+              isActive={layer.id === activeLayerId}
+              canMoveUp={index < layers.length - 1}
+              canMoveDown={index > 0}
+              canRemove={layers.length > 1}
+              onSelect={() => onSelectLayer(layer.id)}
+              onUpdate={patch => onUpdateLayer(layer.id, patch)}
+              onMove={direction => onMoveLayer(layer.id, direction)}
+              onRemove={() => onRemoveLayer(layer.id)}
+            />
+          );
+        })}
+      </ScrollView>
+
+      {/* Opacité du calque actif */}
+      {activeLayer && (
+        <View style={styles.opacityRow}>
+          <Text style={styles.opacityLabel}>Opacité — {Math.round(opacity * 100)}%</Text>
+          <Slider
+            style={styles.slider}
+            minimumValue={0}
+            maximumValue={1}
+            step={0.05}
+            value={opacity}
+            onValueChange={setOpacity}
+            onSlidingComplete={value => onUpdateLayer(activeLayer.id, { opacity: value })}
+            minimumTrackTintColor="#FF8C00"
+            maximumTrackTintColor="#3A4055"
+            thumbTintColor="#FF8C00"
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#141824',
+    borderTopWidth: 1,
+    borderTopColor: '#2A3350',
+    paddingTop: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 12,
+    color: '#A0AEC0',
+    fontWeight: '600',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  addBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#FF8C0040',
+    backgroundColor: '#FF8C0015',
+  },
+  addBtnText: {
+    fontSize: 11,
+    color: '#FF8C00',
+    fontWeight: '600',
+  },
+  closeBtn: {
+    padding: 4,
+  },
+  list: {
+    maxHeight: 160,
+  },
+  listContent: {
+    paddingHorizontal: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2A3350',
+    backgroundColor: '#1E2535',
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+  },
+  rowActive: {
+    borderColor: ACTIVE_BORDER,
+    backgroundColor: '#FF8C0012',
+  },
+  rowBtn: {
+    padding: 6,
+  },
+  name: {
+    flex: 1,
+    fontSize: 13,
+    color: '#E2E8F0',
+    marginHorizontal: 4,
+  },
+  nameHidden: {
+    color: '#5A6480',
+  },
+  nameInput: {
+    flex: 1,
+    fontSize: 13,
+    color: '#E2E8F0',
+    marginHorizontal: 4,
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: '#FF8C00',
+  },
+  count: {
+    fontSize: 10,
+    color: '#A0AEC0',
+    marginRight: 4,
+  },
+  opacityRow: {
+    paddingHorizontal: 12,
+    paddingTop: 8,
+    paddingBottom: 8,
+  },
+  opacityLabel: {
+    fontSize: 11,
+    color: '#A0AEC0',
+    fontWeight: '600',
+  },
+  slider: {
+    height: 32,
+  },
+});
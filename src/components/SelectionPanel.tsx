@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -8,23 +8,197 @@ import {
   Animated,
   Dimensions,
 } from 'react-native';
-import { Ionicons } from '@expo/vector-icons';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { SvgXml } from 'react-native-svg';
-import { Stroke } from '../types';
-import { generateThumbnailSvg } from '../utils/drawingUtils';
+import Slider from '@react-native-community/slider';
+import { AlignAction, BrushType, DistributeAxis, Stroke, StrokeStylePatch, ZOrderAction } from '../types';
+import { FREEHAND_BRUSHES, generateThumbnailSvg } from '../utils/drawingUtils';
+import { getSelectionUnitId } from '../utils/groupUtils';
+import { createLayer } from '../utils/layerUtils';
+import { PRESET_COLORS } from './DrawingToolbar';
 
 interface SelectionPanelProps {
   strokes: Stroke[];
   selection: string[];
   focusedId: string | null;
   onToggleFocus: (id: string) => void;
-  onRemoveFromSelection: (id: string) => void;
+  onRemoveFromSelection: (ids: string[]) => void;
+  /** Groupes ouverts, du plus englobant au plus imbriqué */
+  groupPath: string[];
+  onGroup: () => void;
+  onUngroup: () => void;
+  onEnterGroup: (groupId: string) => void;
+  onExitGroup: () => void;
+  onAlign: (action: AlignAction) => void;
+  onDistribute: (axis: DistributeAxis) => void;
   onDeleteSelected: () => void;
+  onCopy: () => void;
+  onCut: () => void;
+  onDuplicate: () => void;
   onClearSelection: () => void;
+  onRestyle: (patch: StrokeStylePatch) => void;
+  onReorder: (action: ZOrderAction) => void;
   canvasWidth: number;
   canvasHeight: number;
 }
 
+const BRUSH_LABELS: Partial<Record<BrushType, string>> = {
+  pen: 'Stylo',
+  marker: 'Marker',
+  calligraphy: 'Calligr.',
+  line: 'Ligne',
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  arrow: 'Flèche',
+  polygon: 'Polygone',
+  text: 'Texte',
+};
+
+/** Valeur commune à tous les tracés, ou null si elle diffère */
+function getSharedValue<T>(strokes: Stroke[], get: (s: Stroke) => T): T | null {
+  if (strokes.length === 0) return null;
+  const first = get(strokes[0]);
+  return strokes.every(s => get(s) === first) ? first : null;
+}
+
+/**
+ * Propriétés de la sélection : couleur, épaisseur, opacité et pinceau,
+ * appliqués à tous les tracés. "Mixte" quand les valeurs diffèrent ;
+ * un slider n'applique sa valeur (une étape d'undo) qu'au relâchement.
+ */
+function StyleSection({ strokes, onRestyle }: { strokes: Stroke[]; onRestyle: (patch: StrokeStylePatch) => void }) {
+  const [widthDraft, setWidthDraft] = useState<number | null>(null);
+  const [opacityDraft, setOpacityDraft] = useState<number | null>(null);
+
+  const color = getSharedValue(strokes, s => s.color);
+  // Les textes n'ont pas d'épaisseur
+  const sized = strokes.filter(s => !s.text);
+  const width = getSharedValue(sized, s => s.strokeWidth);
+  const opacity = getSharedValue(strokes, s => s.opacity ?? 1);
+  // Le pinceau ne se change qu'entre tracés à main levée
+  const canChangeBrush = strokes.every(s => FREEHAND_BRUSHES.includes(s.brushType));
+  const brush = getSharedValue(strokes, s => s.brushType);
+
+  const widthLabel = widthDraft ?? width;
+  const opacityLabel = opacityDraft ?? opacity;
+
+  return (
+    <View style={styles.styleSection}>
+      <View style={styles.styleRow}>
+        <Text style={styles.styleLabel}>Couleur</Text>
+        {color === null && <Text style={styles.mixed}>Mixte</Text>}
+      </View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.colorRow}>
+        {PRESET_COLORS.map(c => (
+          <TouchableOpacity
+            key={c}
+            style={[
+              styles.colorDot,
+              { backgroundColor: c },
+              c === '#FFFFFF' && styles.colorDotWhite,
+              c === color && styles.colorDotSelected,
+            ]}
+            onPress={() => onRestyle({ color: c })}
+          />
+        ))}
+      </ScrollView>
+
+      {sized.length > 0 && (
+        <>
+          <View style={styles.styleRow}>
+            <Text style={styles.styleLabel}>Épaisseur</Text>
+            <Text style={widthLabel === null ? styles.mixed : styles.styleValue}>
+              {widthLabel === null ? 'Mixte' : `${widthLabel}px`}
+            </Text>
+          </View>
+          <Slider
+            style={styles.slider}
+            minimumValue={1}
+            maximumValue={60}
+            step={1}
+            value={width ?? Math.round(sized.reduce((sum, s) => sum + s.strokeWidth, 0) / sized.length)}
+            onValueChange={setWidthDraft}
+            onSlidingComplete={v => {
+              setWidthDraft(null);
+              onRestyle({ strokeWidth: v });
+            }}
+            minimumTrackTintColor="#FF8C00"
+            maximumTrackTintColor="#3A4055"
+            thumbTintColor="#FF8C00"
+          />
+        </>
+      )}
+
+      <View style={styles.styleRow}>
+        <Text style={styles.styleLabel}>Opacité</Text>
+        <Text style={opacityLabel === null ? styles.mixed : styles.styleValue}>
+          {opacityLabel === null ? 'Mixte' : `${Math.round(opacityLabel * 100)}%`}
+        </Text>
+      </View>
+      <Slider
+        style={styles.slider}
+        minimumValue={0.1}
+        maximumValue={1}
+        step={0.05}
+        value={opacity ?? 1}
+        onValueChange={setOpacityDraft}
+        onSlidingComplete={v => {
+          setOpacityDraft(null);
+          onRestyle({ opacity: Math.round(v * 100) / 100 });
+        }}
+        minimumTrackTintColor="#FF8C00"
+        maximumTrackTintColor="#3A4055"
+        thumbTintColor="#FF8C00"
+      />
+
+      {canChangeBrush && (
+        <>
+          <View style={styles.styleRow}>
+            <Text style={styles.styleLabel}>Pinceau</Text>
+            {brush === null && <Text style={styles.mixed}>Mixte</Text>}
+          </View>
+          <View style={styles.segmentRow}>
+            {FREEHAND_BRUSHES.map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.segment, brush === type && styles.segmentActive]}
+                onPress={() => onRestyle({ brushType: type })}
+              >
+                <Text style={[styles.segmentText, brush === type && styles.segmentTextActive]}>
+                  {BRUSH_LABELS[type]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const Z_ORDER_ACTIONS: { action: ZOrderAction; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { action: 'back', label: 'Arrière-plan', icon: 'play-skip-back-outline' },
+  { action: 'backward', label: 'Reculer', icon: 'chevron-back-outline' },
+  { action: 'forward', label: 'Avancer', icon: 'chevron-forward-outline' },
+  { action: 'front', label: 'Premier plan', icon: 'play-skip-forward-outline' },
+];
+
+type AlignIcon = keyof typeof MaterialCommunityIcons.glyphMap;
+
+const ALIGN_ACTIONS: { action: AlignAction; icon: AlignIcon }[] = [
+  { action: 'left', icon: 'align-horizontal-left' },
+  { action: 'center', icon: 'align-horizontal-center' },
+  { action: 'right', icon: 'align-horizontal-right' },
+  { action: 'top', icon: 'align-vertical-top' },
+  { action: 'middle', icon: 'align-vertical-center' },
+  { action: 'bottom', icon: 'align-vertical-bottom' },
+];
+
+const DISTRIBUTE_AXES: { axis: DistributeAxis; icon: AlignIcon }[] = [
+  { axis: 'horizontal', icon: 'align-horizontal-distribute' },
+  { axis: 'vertical', icon: 'align-vertical-distribute' },
+];
+
 const FOCUSED_BORDER = '#00CFFF';
 const SELECTED_BORDER = '#FF8C00';
 
@@ -34,12 +208,32 @@ export function SelectionPanel({
   focusedId,
   onToggleFocus,
   onRemoveFromSelection,
+  groupPath,
+  onGroup,
+  onUngroup,
+  onEnterGroup,
+  onExitGroup,
+  onAlign,
+  onDistribute,
   onDeleteSelected,
+  onCopy,
+  onCut,
+  onDuplicate,
   onClearSelection,
+  onRestyle,
+  onReorder,
   canvasWidth,
   canvasHeight,
 }: SelectionPanelProps) {
   const selectedStrokes = strokes.filter(s => selection.includes(s.id));
+  const [showStyle, setShowStyle] = useState(false);
+  // Une entrée par unité : tracé seul, ou groupe (au niveau ouvert) avec ses membres
+  const units = new Map<string, Stroke[]>();
+  for (const stroke of selectedStrokes) {
+    const unitId = getSelectionUnitId(stroke, groupPath);
+    units.set(unitId, [...(units.get(unitId) ?? []), stroke]);
+  }
+  const hasGroup = [...units.entries()].some(([unitId, members]) => unitId !== members[0].id);
 
   if (selection.length === 0) return null;
 
@@ -51,6 +245,28 @@ export function SelectionPanel({
           {selection.length} tracé{selection.length > 1 ? 's' : ''} sélectionné{selection.length > 1 ? 's' : ''}
         </Text>
         <View style={styles.headerActions}>
+          {units.size > 1 && (
+            <TouchableOpacity style={styles.iconBtn} onPress={onGroup}>
+              <Ionicons name="link-outline" size={16} color="#A0AEC0" />
+            </TouchableOpacity>
+          )}
+          {hasGroup && (
+            <TouchableOpacity style={styles.iconBtn} onPress={onUngroup}>
+              <Ionicons name="unlink-outline" size={16} color="#A0AEC0" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.iconBtn} onPress={() => setShowStyle(prev => !prev)}>
+            <Ionicons name="color-palette-outline" size={16} color={showStyle ? '#FF8C00' : '#A0AEC0'} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconBtn} onPress={onCopy}>
+            <Ionicons name="copy-outline" size={16} color="#A0AEC0" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconBtn} onPress={onCut}>
+            <Ionicons name="cut-outline" size={16} color="#A0AEC0" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconBtn} onPress={onDuplicate}>
+            <Ionicons name="duplicate-outline" size={16} color="#A0AEC0" />
+          </TouchableOpacity>
           <TouchableOpacity style={styles.deleteBtn} onPress={onDeleteSelected}>
             <Ionicons name="trash-outline" size={14} color="#FF3B30" />
             <Text style={styles.deleteBtnText}>Supprimer</Text>
@@ -61,6 +277,49 @@ export function SelectionPanel({
         </View>
       </View>
 
+      {/* Dans un groupe ouvert : retour au niveau supérieur */}
+      {groupPath.length > 0 && (
+        <TouchableOpacity style={styles.groupCrumb} onPress={onExitGroup}>
+          <Ionicons name="arrow-back" size={14} color="#00CFFF" />
+          <Text style={styles.groupCrumbText}>
+            Dans un groupe{groupPath.length > 1 ? ` (niveau ${groupPath.length})` : ''} — sortir
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {showStyle && <StyleSection strokes={selectedStrokes} onRestyle={onRestyle} />}
+
+      {/* Alignement et répartition des tracés / groupes (répartir : 3 éléments min.) */}
+      {units.size > 1 && (
+        <View style={styles.zOrderRow}>
+          {ALIGN_ACTIONS.map(({ action, icon }) => (
+            <TouchableOpacity key={action} style={styles.alignBtn} onPress={() => onAlign(action)}>
+              <MaterialCommunityIcons name={icon} size={16} color="#A0AEC0" />
+            </TouchableOpacity>
+          ))}
+          {DISTRIBUTE_AXES.map(({ axis, icon }) => (
+            <TouchableOpacity
+              key={axis}
+              style={[styles.alignBtn, units.size < 3 && styles.alignBtnDisabled]}
+              onPress={() => onDistribute(axis)}
+              disabled={units.size < 3}
+            >
+              <MaterialCommunityIcons name={icon} size={16} color="#A0AEC0" />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Ordre d'empilement dans le calque */}
+      <View style={styles.zOrderRow}>
+        {Z_ORDER_ACTIONS.map(({ action, label, icon }) => (
+          <TouchableOpacity key={action} style={styles.zOrderBtn} onPress={() => onReorder(action)}>
+            <Ionicons name={icon} size={14} color="#A0AEC0" />
+            <Text style={styles.zOrderText}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       {/* Liste des vignettes */}
       <ScrollView
         horizontal
@@ -68,20 +327,25 @@ export function SelectionPanel({
         contentContainerStyle={styles.list}
         style={styles.listScroll}
       >
-        {selectedStrokes.map(stroke => {
-          const isFocused = focusedId === stroke.id;
-          const thumbSvg = generateThumbnailSvg([stroke], canvasWidth, canvasHeight);
+        {[...units.entries()].map(([unitId, members]) => {
+          const stroke = members[0];
+          // Groupe : une seule vignette, un tap l'ouvre
+          const isGroup = unitId !== stroke.id;
+          const isFocused = !isGroup && focusedId === stroke.id;
+          // Vignette du tracé seul, hors de son calque
+          const thumbSvg = generateThumbnailSvg([createLayer('', members)], canvasWidth, canvasHeight);
           const borderColor = isFocused ? FOCUSED_BORDER : SELECTED_BORDER;
 
           return (
             <TouchableOpacity
-              key={stroke.id}
+              key={unitId}
               style={[
                 styles.thumbContainer,
                 { borderColor },
                 isFocused && styles.thumbFocused,
+                isGroup && styles.thumbGroup,
               ]}
-              onPress={() => onToggleFocus(stroke.id)}
+              onPress={() => (isGroup ? onEnterGroup(unitId) : onToggleFocus(stroke.id))}
               activeOpacity={0.8}
             >
               {/* Miniature SVG */}
@@ -103,17 +367,15 @@ export function SelectionPanel({
               {/* Bouton retirer de la sélection */}
               <TouchableOpacity
                 style={styles.removeBtn}
-                onPress={() => onRemoveFromSelection(stroke.id)}
+                onPress={() => onRemoveFromSelection(members.map(m => m.id))}
                 hitSlop={{ top: 4, bottom: 4, left: 4, right: 4 }}
               >
                 <Ionicons name="close-circle" size={16} color="#FF3B30" />
               </TouchableOpacity>
 
-              {/* Label type de brush */}
+              {/* Label type de brush, ou taille du groupe */}
               <Text style={styles.brushLabel}>
-                {stroke.brushType === 'pen' ? 'Stylo' :
-                 stroke.brushType === 'marker' ? 'Marker' :
-                 stroke.brushType === 'calligraphy' ? 'Calligr.' : stroke.brushType}
+                {isGroup ? `Groupe (${members.length})` : BRUSH_LABELS[stroke.brushType] ?? stroke.brushType}
               </Text>
             </TouchableOpacity>
           );
@@ -147,6 +409,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 8,
   },
+  iconBtn: {
+    padding: 4,
+  },
   deleteBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -183,6 +448,9 @@ const styles = StyleSheet.create({
     padding: 4,
     position: 'relative',
   },
+  thumbGroup: {
+    borderStyle: 'dashed',
+  },
   thumbFocused: {
     backgroundColor: '#00CFFF12',
   },
@@ -210,6 +478,123 @@ const styles = StyleSheet.create({
     top: -6,
     right: -6,
   },
+  styleSection: {
+    paddingHorizontal: 12,
+    paddingBottom: 8,
+  },
+  styleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  styleLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#A0AEC0',
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+  },
+  styleValue: {
+    fontSize: 11,
+    color: '#E2E8F0',
+    fontWeight: '600',
+  },
+  mixed: {
+    fontSize: 11,
+    color: '#5A6480',
+    fontStyle: 'italic',
+  },
+  colorRow: {
+    gap: 8,
+    paddingBottom: 10,
+  },
+  colorDot: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+  },
+  colorDotSelected: {
+    borderWidth: 3,
+    borderColor: '#FF8C00',
+  },
+  colorDotWhite: {
+    borderWidth: 1,
+    borderColor: '#3A4055',
+  },
+  slider: {
+    height: 32,
+    marginBottom: 4,
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2A3350',
+    alignItems: 'center',
+  },
+  segmentActive: {
+    borderColor: '#FF8C00',
+    backgroundColor: '#FF8C0020',
+  },
+  segmentText: {
+    color: '#A0AEC0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  segmentTextActive: {
+    color: '#FF8C00',
+  },
+  groupCrumb: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  groupCrumbText: {
+    fontSize: 11,
+    color: '#00CFFF',
+    fontWeight: '600',
+  },
+  zOrderRow: {
+    flexDirection: 'row',
+    gap: 6,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  zOrderBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingVertical: 5,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#2A3350',
+  },
+  alignBtn: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 5,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#2A3350',
+  },
+  alignBtnDisabled: {
+    opacity: 0.4,
+  },
+  zOrderText: {
+    fontSize: 10,
+    color: '#A0AEC0',
+    fontWeight: '600',
+  },
   brushLabel: {
     fontSize: 9,
     color: '#A0AEC0',
@@ -1,5 +1,5 @@
-import React, { useCallback } from 'react';
-import { StyleSheet } from 'react-native';
+import React, { useMemo } from 'react';
+import { Platform, StyleSheet } from 'react-native';
 import {
   Canvas,
   Path,
@@ -11,8 +11,38 @@ import {
   Group,
   Rect,
   DashPathEffect,
+  Text as SkiaText,
+  matchFont,
+  drawAsImage,
+  drawAsPicture,
+  ImageFormat,
+  Picture,
+  Skia,
+  SkPicture,
 } from '@shopify/react-native-skia';
-import { Stroke, BrushType } from '../types';
+import {
+  Stroke,
+  BrushType,
+  Viewport,
+  Layer,
+  ExportBounds,
+  ExportOptions,
+  GridSettings,
+  SnapGuide,
+  BoundingBox,
+} from '../types';
+import {
+  getStrokesBoundingBox,
+  getSelectionHandles,
+  getExportGridPathData,
+  getExportGridWidth,
+  HANDLE_SIZE,
+} from '../utils/drawingUtils';
+import { getGridPathData, getGridStep, getRulerStep, GRID_COLOR } from '../utils/gridUtils';
+import { flattenLayers } from '../utils/layerUtils';
+import { isShapeType } from '../utils/shapeUtils';
+import { getTextLines, TEXT_LINE_HEIGHT } from '../utils/textUtils';
+import { getStrokeGeometry, StrokeGeometry } from '../utils/strokeGeometry';
 
 interface DragRect {
   x: number;
@@ -21,69 +51,73 @@ interface DragRect {
   height: number;
 }
 
+interface EraserCursor {
+  x: number;
+  y: number;
+  radius: number;
+}
+
 interface SkiaCanvasProps {
-  strokes: Stroke[];
+  layers: Layer[];
+  activeLayerId: string;
   currentStroke: Stroke | null;
   selection: string[];
   focusedId: string | null;
   dragRect: DragRect | null;
+  /** Boucle du lasso en cours (fermée au rendu) */
+  lasso: { x: number; y: number }[] | null;
+  eraserCursor: EraserCursor | null;
+  viewport: Viewport;
+  showTransformHandles: boolean;
   width: number;
   height: number;
+  /**
+   * Tracés validés enregistrés dans des SkPicture (par défaut) ; false les
+   * re-rend en éléments React à chaque rendu (comparaison du benchmark).
+   */
+  cacheStrokes?: boolean;
+  /** Grille de fond (jamais incluse dans les pictures ni dans l'export par défaut) */
+  grid: GridSettings;
+  /** Guides d'aimantation du geste en cours */
+  guides: SnapGuide[];
+  /** Calques au début du geste de transformation de la sélection (null hors geste) */
+  transformBase?: Layer[] | null;
+  /** Overlay Skia du temps de dessin natif (benchmark) */
+  debug?: boolean;
 }
 
 const SELECTION_COLOR = '#FF8C00';   // orange - tracés sélectionnés
 const FOCUSED_COLOR = '#00CFFF';     // cyan - tracé focalisé dans le panneau
 const DRAG_RECT_COLOR = '#3B82F6';   // bleu - rectangle de sélection en cours
+const GUIDE_COLOR = '#E0349A';       // magenta - guides d'aimantation
+const RULER_SIZE = 18;
+
+// Les tracés sont immuables : leur géométrie est calculée une fois par objet,
+// y compris quand une picture est réenregistrée (nouvel arbre, pas de useMemo)
+const geometryCache = new WeakMap<Stroke, StrokeGeometry>();
+
+function getCachedGeometry(stroke: Stroke): StrokeGeometry {
+  let geometry = geometryCache.get(stroke);
+  if (!geometry) {
+    geometry = getStrokeGeometry(stroke);
+    geometryCache.set(stroke, geometry);
+  }
+  return geometry;
+}
 
 /**
- * Rendu d'un tracé marker : segments individuels avec opacity 0.5
- * pour que les croisements s'accumulent visuellement.
+ * Paint d'un calque de composition (saveLayer) : le contenu du groupe est
+ * dessiné à part puis composé une seule fois avec cette opacité. Sans objet à 1.
  */
- function MarkerStroke({
-   stroke,
-   isSelected,
-   isFocused,
- }: {
-   stroke: Stroke;
-   isSelected: boolean;
-   isFocused: boolean;
- }) {
-   const highlightColor = isFocused ? FOCUSED_COLOR : SELECTION_COLOR;
-
-   return (
-     <Group>
-       {isSelected && stroke.points.length > 1 && (
-         <Path
-           path={stroke.pathData}
-           style="stroke"
-           strokeWidth={stroke.strokeWidth + 6}
-           strokeCap="round"
-           strokeJoin="round"
-           color={highlightColor}
-           opacity={0.6}
-         >
-           <DashPathEffect intervals={[4, 4]} />
-         </Path>
-       )}
-       <Group opacity={0.5}>
-         <Path
-           path={stroke.pathData}
-           style="stroke"
-           strokeWidth={stroke.strokeWidth}
-           strokeCap="round"
-           strokeJoin="round"
-           color={stroke.color}
-         />
-       </Group>
-     </Group>
-   );
- }
+function opacityLayer(opacity: number) {
+  return opacity < 1 ? <Paint opacity={opacity} /> : undefined;
+}
+
 /**
- * Rendu d'un tracé pen ou calligraphie.
- * La calligraphie module l'épaisseur selon la pression — on approxime
- * en rendant des segments avec strokeWidth variable.
+ * Rendu d'un tracé à main levée (stylo, marker, calligraphie) : contour plein
+ * à épaisseur variable issu de strokeGeometry, identique à l'export SVG.
  */
-function RegularStroke({
+function FreehandStroke({
   stroke,
   isSelected,
   isFocused,
@@ -93,7 +127,7 @@ function RegularStroke({
   isFocused: boolean;
 }) {
   const highlightColor = isFocused ? FOCUSED_COLOR : SELECTION_COLOR;
-  const isCalligraphy = stroke.brushType === 'calligraphy';
+  const geometry = getCachedGeometry(stroke);
 
   return (
     <Group>
@@ -111,107 +145,573 @@ function RegularStroke({
           <DashPathEffect intervals={[4, 4]} />
         </Path>
       )}
-      {/* Tracé principal */}
-      {isCalligraphy && stroke.points.length > 1 ? (
-        // Calligraphie : segments avec épaisseur variable selon pression
-        stroke.points.slice(0, -1).map((pt, i) => {
-          const next = stroke.points[i + 1];
-          const avgPressure = (pt.pressure + next.pressure) / 2;
-          const w = Math.max(1, stroke.strokeWidth * avgPressure * 1.5);
-          return (
-            <Line
-              key={i}
-              p1={vec(pt.x, pt.y)}
-              p2={vec(next.x, next.y)}
-              color={stroke.color}
-              style="stroke"
-              strokeWidth={w}
-              strokeCap="round"
-            />
-          );
-        })
-      ) : (
+      {geometry.outline ? (
+        <Path path={geometry.outline} style="fill" color={stroke.color} opacity={geometry.opacity} />
+      ) : null}
+      {/* Marker en superposition : chaque portion est composée séparément */}
+      {geometry.pieces?.map((piece, i) => (
+        <Path key={i} path={piece} style="fill" color={stroke.color} opacity={geometry.opacity} />
+      ))}
+    </Group>
+  );
+}
+
+/**
+ * Rendu d'une forme : contour en ligne brisée (angles nets), remplissage optionnel.
+ */
+function ShapeStroke({
+  stroke,
+  isSelected,
+  isFocused,
+}: {
+  stroke: Stroke;
+  isSelected: boolean;
+  isFocused: boolean;
+}) {
+  const highlightColor = isFocused ? FOCUSED_COLOR : SELECTION_COLOR;
+  const geometry = getCachedGeometry(stroke);
+
+  return (
+    <Group>
+      {isSelected && (
         <Path
           path={stroke.pathData}
           style="stroke"
+          strokeWidth={stroke.strokeWidth + 4}
+          strokeJoin="round"
+          color={highlightColor}
+          opacity={0.6}
+        >
+          <DashPathEffect intervals={[4, 4]} />
+        </Path>
+      )}
+      {/*
+        Contour et remplissage peints opaques dans un même calque, composé
+        ensuite avec l'opacité du tracé : pas de surimpression à leur jonction
+        (l'opacité d'un <Group> simple s'appliquerait à chaque peinture)
+      */}
+      <Group layer={opacityLayer(geometry.opacity)}>
+        {geometry.fill && <Path path={geometry.fill} style="fill" color={stroke.color} />}
+        <Path
+          path={geometry.path ?? stroke.pathData}
+          style="stroke"
           strokeWidth={stroke.strokeWidth}
           strokeCap="round"
           strokeJoin="round"
           color={stroke.color}
         />
+      </Group>
+    </Group>
+  );
+}
+
+const FONT_FAMILY = Platform.select({ ios: 'Helvetica', default: 'sans-serif' });
+
+/**
+ * Rendu d'un texte : une ligne par <Text>, dans un groupe positionné au coin
+ * haut-gauche du cadre et tourné autour de lui. Le halo suit le cadre.
+ */
+function TextStroke({
+  stroke,
+  isSelected,
+  isFocused,
+}: {
+  stroke: Stroke;
+  isSelected: boolean;
+  isFocused: boolean;
+}) {
+  const highlightColor = isFocused ? FOCUSED_COLOR : SELECTION_COLOR;
+  const fontSize = stroke.text?.fontSize ?? 0;
+  const font = useMemo(() => matchFont({ fontFamily: FONT_FAMILY, fontSize }), [fontSize]);
+  if (!stroke.text || stroke.points.length === 0) return null;
+  const { x, y } = stroke.points[0];
+
+  return (
+    <Group>
+      {isSelected && (
+        <Path
+          path={stroke.pathData}
+          style="stroke"
+          strokeWidth={2}
+          color={highlightColor}
+          opacity={0.6}
+        >
+          <DashPathEffect intervals={[4, 4]} />
+        </Path>
+      )}
+      <Group
+        transform={[{ translateX: x }, { translateY: y }, { rotate: stroke.text.rotation }]}
+        opacity={stroke.opacity ?? 1}
+      >
+        {getTextLines(stroke.text.content).map((line, i) => (
+          <SkiaText
+            key={i}
+            x={0}
+            y={fontSize * (TEXT_LINE_HEIGHT * i + 1)}
+            text={line}
+            font={font}
+            color={stroke.color}
+          />
+        ))}
+      </Group>
+    </Group>
+  );
+}
+
+/**
+ * Rendu d'un tracé selon son type (la key est fixée par l'appelant).
+ */
+function renderStroke(stroke: Stroke, isSelected: boolean, isFocused: boolean, key: string) {
+  if (stroke.brushType === 'text') {
+    return (
+      <TextStroke
+        key={key}
+        stroke={stroke}
+        isSelected={isSelected}
+        isFocused={isFocused}
+      />
+    );
+  }
+  if (isShapeType(stroke.brushType)) {
+    return (
+      <ShapeStroke
+        key={key}
+        stroke={stroke}
+        isSelected={isSelected}
+        isFocused={isFocused}
+      />
+    );
+  }
+  return (
+    <FreehandStroke
+      key={key}
+      stroke={stroke}
+      isSelected={isSelected}
+      isFocused={isFocused}
+    />
+  );
+}
+
+/**
+ * Calques visibles de bas en haut ; le tracé en cours est rendu dans le
+ * calque actif. Chaque calque est composé une seule fois avec son opacité
+ * (les tracés d'un calque ne se cumulent pas à travers elle), comme les
+ * groupes de l'export SVG et PDF. Partagé par le canvas et l'export PNG.
+ */
+export function DrawingLayers({
+  layers,
+  selection = [],
+  focusedId = null,
+  activeLayerId,
+  currentStroke = null,
+}: {
+  layers: Layer[];
+  selection?: string[];
+  focusedId?: string | null;
+  activeLayerId?: string;
+  currentStroke?: Stroke | null;
+}) {
+  return (
+    <>
+      {layers.map(layer =>
+        layer.visible ? (
+          <Group key={layer.id} layer={opacityLayer(layer.opacity)}>
+            {layer.strokes.map(s => renderStroke(s, selection.includes(s.id), focusedId === s.id, s.id))}
+            {layer.id === activeLayerId && currentStroke && renderStroke(currentStroke, false, false, 'current')}
+          </Group>
+        ) : null
+      )}
+    </>
+  );
+}
+
+/**
+ * Enregistre des calques dans une SkPicture, en coordonnées document : elle
+ * est rejouée telle quelle quand le viewport change. Le cadre d'enregistrement
+ * couvre le contenu, épaisseurs et halos de sélection compris.
+ */
+function recordLayersPicture(layers: Layer[], selection: string[], focusedId: string | null): SkPicture | null {
+  const visible = layers.filter(l => l.visible && l.strokes.length > 0);
+  const strokes = flattenLayers(visible);
+  const bb = getStrokesBoundingBox(strokes);
+  if (!bb) return null;
+  const padding = Math.max(...strokes.map(s => s.strokeWidth)) + 8;
+  const bounds = Skia.XYWHRect(
+    bb.minX - padding,
+    bb.minY - padding,
+    bb.maxX - bb.minX + padding * 2,
+    bb.maxY - bb.minY + padding * 2
+  );
+  return drawAsPicture(<DrawingLayers layers={visible} selection={selection} focusedId={focusedId} />, bounds);
+}
+
+/**
+ * Découpe un calque, pour une transformation en cours, en suites de tracés
+ * fixes enregistrées en pictures et en ids des tracés transformés, dans
+ * l'ordre d'empilement : les tracés transformés y sont redessinés à leur place.
+ */
+function recordTransformRuns(
+  layer: Layer,
+  moving: Set<string>,
+  selection: string[],
+  focusedId: string | null
+): (SkPicture | string)[] {
+  const runs: (SkPicture | string)[] = [];
+  let fixed: Stroke[] = [];
+  const flush = () => {
+    const picture = recordLayersPicture([{ ...layer, opacity: 1, strokes: fixed }], selection, focusedId);
+    if (picture) runs.push(picture);
+    fixed = [];
+  };
+  for (const stroke of layer.strokes) {
+    if (!moving.has(stroke.id)) {
+      fixed.push(stroke);
+      continue;
+    }
+    flush();
+    runs.push(stroke.id);
+  }
+  flush();
+  return runs;
+}
+
+/**
+ * Rendu hors écran de la zone exportée en PNG (base64), à `scale` fois la
+ * résolution document. Fond transparent si `background` est 'transparent' ;
+ * grille sous les tracés si `grid` est fourni.
+ */
+export function renderDrawingToPngBase64(
+  layers: Layer[],
+  bounds: ExportBounds,
+  scale: number,
+  background: ExportOptions['background'],
+  grid?: GridSettings
+): string {
+  const width = Math.max(1, Math.round(bounds.width * scale));
+  const height = Math.max(1, Math.round(bounds.height * scale));
+  const image = drawAsImage(
+    <Group transform={[{ scale }, { translateX: -bounds.x }, { translateY: -bounds.y }]}>
+      {background === 'white' && (
+        <Rect x={bounds.x} y={bounds.y} width={bounds.width} height={bounds.height} color="#FFFFFF" />
+      )}
+      {grid && grid.type !== 'none' && (
+        <Path
+          path={getExportGridPathData(grid, bounds)}
+          style="stroke"
+          strokeWidth={getExportGridWidth(grid)}
+          strokeCap="round"
+          color={GRID_COLOR}
+        />
       )}
+      <DrawingLayers layers={layers} />
+    </Group>,
+    { width, height }
+  );
+  return image.encodeToBase64(ImageFormat.PNG);
+}
+
+/** Zone du document visible à l'écran */
+function getVisibleBox(viewport: Viewport, width: number, height: number): BoundingBox {
+  const { translateX, translateY, scale } = viewport;
+  return {
+    minX: -translateX / scale,
+    minY: -translateY / scale,
+    maxX: (width - translateX) / scale,
+    maxY: (height - translateY) / scale,
+  };
+}
+
+/**
+ * Règles en haut et à gauche, en coordonnées écran : graduations en unités
+ * document (pas 1, 2 ou 5 × 10ⁿ selon le zoom), cinq subdivisions.
+ */
+function Rulers({ viewport, width, height }: { viewport: Viewport; width: number; height: number }) {
+  const font = useMemo(() => matchFont({ fontFamily: FONT_FAMILY, fontSize: 9 }), []);
+  const { translateX, translateY, scale } = viewport;
+  const box = getVisibleBox(viewport, width, height);
+  const step = getRulerStep(scale);
+  const minor = step / 5;
+
+  const ticks = (min: number, max: number, toScreen: (v: number) => number, horizontal: boolean) => {
+    const labels: { value: number; pos: number }[] = [];
+    let d = '';
+    for (let i = Math.floor(min / minor); i * minor <= max; i++) {
+      const pos = toScreen(i * minor);
+      const length = i % 5 === 0 ? RULER_SIZE / 2 : RULER_SIZE / 4;
+      d += horizontal
+        ? `M ${pos} ${RULER_SIZE} L ${pos} ${RULER_SIZE - length} `
+        : `M ${RULER_SIZE} ${pos} L ${RULER_SIZE - length} ${pos} `;
+      if (i % 5 === 0) labels.push({ value: Math.round(i * minor), pos });
+    }
+    return { d, labels };
+  };
+  const top = ticks(box.minX, box.maxX, v => v * scale + translateX, true);
+  const left = ticks(box.minY, box.maxY, v => v * scale + translateY, false);
+
+  return (
+    <Group>
+      <Rect x={0} y={0} width={width} height={RULER_SIZE} color="#F1F5F9" />
+      <Rect x={0} y={0} width={RULER_SIZE} height={height} color="#F1F5F9" />
+      {top.d !== '' && <Path path={top.d} style="stroke" strokeWidth={1} color="#94A3B8" />}
+      {left.d !== '' && <Path path={left.d} style="stroke" strokeWidth={1} color="#94A3B8" />}
+      {top.labels.map(({ value, pos }) => (
+        <SkiaText key={`x${value}`} x={pos + 2} y={9} text={String(value)} font={font} color="#64748B" />
+      ))}
+      {/* Étiquettes verticales, lues de bas en haut */}
+      {left.labels.map(({ value, pos }) => (
+        <Group key={`y${value}`} transform={[{ translateX: 9 }, { translateY: pos - 2 }, { rotate: -Math.PI / 2 }]}>
+          <SkiaText x={0} y={0} text={String(value)} font={font} color="#64748B" />
+        </Group>
+      ))}
+      <Rect x={0} y={0} width={RULER_SIZE} height={RULER_SIZE} color="#E2E8F0" />
     </Group>
   );
 }
 
 export function SkiaCanvas({
-  strokes,
+  layers,
+  activeLayerId,
   currentStroke,
   selection,
   focusedId,
   dragRect,
+  lasso,
+  eraserCursor,
+  viewport,
+  showTransformHandles,
   width,
   height,
+  cacheStrokes = true,
+  grid,
+  guides,
+  transformBase = null,
+  debug = false,
 }: SkiaCanvasProps) {
-  const renderStroke = (stroke: Stroke, isCurrent = false) => {
-    const isSelected = !isCurrent && selection.includes(stroke.id);
-    const isFocused = !isCurrent && focusedId === stroke.id;
-    const key = isCurrent ? 'current' : stroke.id;
-
-    if (stroke.brushType === 'marker') {
-      return (
-        <MarkerStroke
-          key={key}
-          stroke={stroke}
-          isSelected={isSelected}
-          isFocused={isFocused}
-        />
+  // Calques sous le calque actif, calque actif et calques au-dessus : seul le
+  // tracé en cours est redessiné pendant le geste, entre les pictures. Le
+  // calque actif est enregistré sans son opacité, appliquée au rendu au calque
+  // et au tracé en cours réunis.
+  // Pendant une transformation, les calques du début du geste sont enregistrés
+  // par suites de tracés hors sélection : rien n'est réenregistré à chaque
+  // mouvement, seuls les tracés transformés sont redessinés, entre ces suites.
+  const activeIndex = layers.findIndex(l => l.id === activeLayerId);
+  const activeLayer = layers[activeIndex];
+  const recorded = transformBase ?? layers;
+  const pictures = useMemo(() => {
+    if (!cacheStrokes) return null;
+    if (transformBase) {
+      const moving = new Set(selection);
+      const byLayer = new Map(
+        transformBase.map(l => [l.id, recordTransformRuns(l, moving, selection, focusedId)] as const)
       );
+      return { below: null, active: null, above: null, byLayer };
     }
-    return (
-      <RegularStroke
-        key={key}
-        stroke={stroke}
-        isSelected={isSelected}
-        isFocused={isFocused}
-      />
-    );
-  };
+    const active = recorded[activeIndex];
+    return {
+      below: recordLayersPicture(recorded.slice(0, Math.max(activeIndex, 0)), selection, focusedId),
+      active: active ? recordLayersPicture([{ ...active, opacity: 1 }], selection, focusedId) : null,
+      above: recordLayersPicture(recorded.slice(activeIndex + 1), selection, focusedId),
+      byLayer: null,
+    };
+  }, [cacheStrokes, recorded, transformBase, activeIndex, selection, focusedId]);
+  const picturesByLayer = pictures?.byLayer;
+
+  const selectionBB = showTransformHandles
+    ? getStrokesBoundingBox(flattenLayers(layers, true).filter(s => selection.includes(s.id)))
+    : null;
+  const handles = selectionBB ? getSelectionHandles(selectionBB, viewport.scale) : null;
+  const lassoPath = lasso && lasso.length > 1
+    ? `${lasso.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ')} Z`
+    : null;
+  const handleSize = HANDLE_SIZE / viewport.scale;
+  const lineWidth = 1.5 / viewport.scale;
+  const visibleBox = getVisibleBox(viewport, width, height);
+  // Grille sur la zone visible seulement, lignes (ou points) à épaisseur constante à l'écran
+  const gridPath = grid.type !== 'none'
+    ? getGridPathData(grid.type, visibleBox, getGridStep(grid.size, viewport.scale))
+    : '';
 
   return (
-    <Canvas style={[styles.canvas, { width, height }]}>
+    <Canvas style={[styles.canvas, { width, height }]} debug={debug}>
       {/* Fond blanc */}
       <Rect x={0} y={0} width={width} height={height} color="#FFFFFF" />
 
-      {/* Tracés sauvegardés */}
-      {strokes.map(s => renderStroke(s))}
-
-      {/* Tracé en cours de dessin */}
-      {currentStroke && renderStroke(currentStroke, true)}
-
-      {/* Rectangle de sélection en cours de drag */}
-      {dragRect && (
-        <Group>
-          <Rect
-            x={dragRect.x}
-            y={dragRect.y}
-            width={dragRect.width}
-            height={dragRect.height}
-            color={`${DRAG_RECT_COLOR}15`}
+      {/* Contenu en coordonnées document, transformé par le viewport */}
+      <Group
+        transform={[
+          { translateX: viewport.translateX },
+          { translateY: viewport.translateY },
+          { scale: viewport.scale },
+        ]}
+      >
+        {gridPath !== '' && (
+          <Path
+            path={gridPath}
+            style="stroke"
+            strokeWidth={(grid.type === 'dot' ? 3 : 1) / viewport.scale}
+            strokeCap="round"
+            color={GRID_COLOR}
           />
-          <Rect
-            x={dragRect.x}
-            y={dragRect.y}
-            width={dragRect.width}
-            height={dragRect.height}
+        )}
+
+        {picturesByLayer ? (
+          layers.map(layer => {
+            if (!layer.visible) return null;
+            const live = new Map(layer.strokes.map(s => [s.id, s]));
+            return (
+              <Group key={layer.id} layer={opacityLayer(layer.opacity)}>
+                {picturesByLayer.get(layer.id)?.map((run, i) => {
+                  if (typeof run !== 'string') return <Picture key={`run-${i}`} picture={run} />;
+                  // Tracé transformé, à sa place dans l'empilement du calque
+                  const stroke = live.get(run);
+                  return stroke ? renderStroke(stroke, true, focusedId === run, run) : null;
+                })}
+              </Group>
+            );
+          })
+        ) : pictures ? (
+          <>
+            {pictures.below && <Picture picture={pictures.below} />}
+            {activeLayer?.visible && (pictures.active || currentStroke) && (
+              <Group layer={opacityLayer(activeLayer.opacity)}>
+                {pictures.active && <Picture picture={pictures.active} />}
+                {currentStroke && renderStroke(currentStroke, false, false, 'current')}
+              </Group>
+            )}
+            {pictures.above && <Picture picture={pictures.above} />}
+          </>
+        ) : (
+          <DrawingLayers
+            layers={layers}
+            selection={selection}
+            focusedId={focusedId}
+            activeLayerId={activeLayerId}
+            currentStroke={currentStroke}
+          />
+        )}
+
+        {/* Rectangle de sélection en cours de drag (épaisseur constante à l'écran) */}
+        {dragRect && (
+          <Group>
+            <Rect
+              x={dragRect.x}
+              y={dragRect.y}
+              width={dragRect.width}
+              height={dragRect.height}
+              color={`${DRAG_RECT_COLOR}15`}
+            />
+            <Rect
+              x={dragRect.x}
+              y={dragRect.y}
+              width={dragRect.width}
+              height={dragRect.height}
+              style="stroke"
+              strokeWidth={1.5 / viewport.scale}
+              color={DRAG_RECT_COLOR}
+            >
+              <DashPathEffect intervals={[5 / viewport.scale, 3 / viewport.scale]} />
+            </Rect>
+          </Group>
+        )}
+
+        {/* Lasso en cours, fermé entre le doigt et le point de départ */}
+        {lassoPath && (
+          <Group>
+            <Path path={lassoPath} style="fill" color={`${DRAG_RECT_COLOR}15`} />
+            <Path
+              path={lassoPath}
+              style="stroke"
+              strokeWidth={lineWidth}
+              strokeJoin="round"
+              color={DRAG_RECT_COLOR}
+            >
+              <DashPathEffect intervals={[5 / viewport.scale, 3 / viewport.scale]} />
+            </Path>
+          </Group>
+        )}
+
+        {/* Cercle de la gomme sous le doigt */}
+        {eraserCursor && (
+          <Group>
+            <Circle cx={eraserCursor.x} cy={eraserCursor.y} r={eraserCursor.radius} color="#FFFFFF66" />
+            <Circle
+              cx={eraserCursor.x}
+              cy={eraserCursor.y}
+              r={eraserCursor.radius}
+              style="stroke"
+              strokeWidth={lineWidth}
+              color="#808080"
+            />
+          </Group>
+        )}
+
+        {/* Guides d'aimantation, d'un bord à l'autre de l'écran */}
+        {guides.map(g => (
+          <Line
+            key={`${g.axis}${g.value}`}
+            p1={g.axis === 'x' ? vec(g.value, visibleBox.minY) : vec(visibleBox.minX, g.value)}
+            p2={g.axis === 'x' ? vec(g.value, visibleBox.maxY) : vec(visibleBox.maxX, g.value)}
+            color={GUIDE_COLOR}
             style="stroke"
-            strokeWidth={1.5}
-            color={DRAG_RECT_COLOR}
-          >
-            <DashPathEffect intervals={[5, 3]} />
-          </Rect>
-        </Group>
-      )}
+            strokeWidth={1 / viewport.scale}
+          />
+        ))}
+
+        {/* Cadre de transformation : coins = échelle, poignée du haut = rotation */}
+        {handles && (
+          <Group>
+            <Rect
+              x={handles.box.minX}
+              y={handles.box.minY}
+              width={handles.box.maxX - handles.box.minX}
+              height={handles.box.maxY - handles.box.minY}
+              style="stroke"
+              strokeWidth={lineWidth}
+              color={SELECTION_COLOR}
+            >
+              <DashPathEffect intervals={[6 / viewport.scale, 4 / viewport.scale]} />
+            </Rect>
+            <Line
+              p1={vec((handles.box.minX + handles.box.maxX) / 2, handles.box.minY)}
+              p2={vec(handles.rotation.x, handles.rotation.y)}
+              color={SELECTION_COLOR}
+              style="stroke"
+              strokeWidth={lineWidth}
+            />
+            <Circle cx={handles.rotation.x} cy={handles.rotation.y} r={handleSize / 2} color="#FFFFFF" />
+            <Circle
+              cx={handles.rotation.x}
+              cy={handles.rotation.y}
+              r={handleSize / 2}
+              style="stroke"
+              strokeWidth={lineWidth}
+              color={SELECTION_COLOR}
+            />
+            {Object.entries(handles.corners).map(([key, c]) => (
+              <Group key={key}>
+                <Rect
+                  x={c.x - handleSize / 2}
+                  y={c.y - handleSize / 2}
+                  width={handleSize}
+                  height={handleSize}
+                  color="#FFFFFF"
+                />
+                <Rect
+                  x={c.x - handleSize / 2}
+                  y={c.y - handleSize / 2}
+                  width={handleSize}
+                  height={handleSize}
+                  style="stroke"
+                  strokeWidth={lineWidth}
+                  color={SELECTION_COLOR}
+                />
+              </Group>
+            ))}
+          </Group>
+        )}
+      </Group>
+
+      {grid.showRulers && <Rulers viewport={viewport} width={width} height={height} />}
     </Canvas>
   );
 }
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import Slider from '@react-native-community/slider';
+
+interface TextEditModalProps {
+  visible: boolean;
+  /** Contenu initial (vide pour un nouveau texte) */
+  initialContent: string;
+  initialFontSize: number;
+  color: string;
+  isNew: boolean;
+  onSubmit: (content: string, fontSize: number) => void;
+  onCancel: () => void;
+}
+
+const MIN_FONT_SIZE = 8;
+const MAX_FONT_SIZE = 96;
+
+/**
+ * Saisie d'une annotation texte : contenu multiligne et taille de police.
+ * Valider un contenu vide sur un texte existant le supprime.
+ */
+export function TextEditModal({
+  visible,
+  initialContent,
+  initialFontSize,
+  color,
+  isNew,
+  onSubmit,
+  onCancel,
+}: TextEditModalProps) {
+  const [content, setContent] = useState(initialContent);
+  const [fontSize, setFontSize] = useState(initialFontSize);
+
+  // Réinitialisé à chaque ouverture
+  useEffect(() => {
+    if (visible) {
+      setContent(initialContent);
+      setFontSize(initialFontSize);
+    }
+  }, [visible, initialContent, initialFontSize]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onCancel}>
+      <KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <Pressable style={styles.modalOverlay} onPress={onCancel}>
+          <Pressable style={styles.panel} onPress={e => e.stopPropagation()}>
+            <View style={styles.handle} />
+            <Text style={styles.title}>{isNew ? 'Nouveau texte' : 'Modifier le texte'}</Text>
+
+            <TextInput
+              style={[styles.input, { color }]}
+              value={content}
+              onChangeText={setContent}
+              placeholder="Votre texte…"
+              placeholderTextColor="#5A6480"
+              multiline
+              autoFocus
+            />
+
+            <Text style={styles.title}>Taille — {fontSize}px</Text>
+            <View style={styles.sliderRow}>
+              <Text style={styles.sliderLabel}>{MIN_FONT_SIZE}</Text>
+              <Slider
+                style={styles.slider}
+                minimumValue={MIN_FONT_SIZE}
+                maximumValue={MAX_FONT_SIZE}
+                step={1}
+                value={fontSize}
+                onValueChange={setFontSize}
+                minimumTrackTintColor="#FF8C00"
+                maximumTrackTintColor="#3A4055"
+                thumbTintColor="#FF8C00"
+              />
+              <Text style={styles.sliderLabel}>{MAX_FONT_SIZE}</Text>
+            </View>
+
+            <View style={styles.actions}>
+              <TouchableOpacity style={[styles.btn, styles.btnSecondary]} onPress={onCancel}>
+                <Text style={styles.btnSecondaryText}>Annuler</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.btn} onPress={() => onSubmit(content, fontSize)}>
+                <Text style={styles.btnText}>{isNew ? 'Ajouter' : 'Valider'}</Text>
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  panel: {
+    backgroundColor: '#1A2035',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 36,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#3A4055',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#A0AEC0',
+    textTransform: 'uppercase',
+    letterSpacing: 0.8,
+    marginBottom: 12,
+  },
+  input: {
+    minHeight: 80,
+    maxHeight: 160,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    textAlignVertical: 'top',
+    marginBottom: 20,
+  },
+  sliderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  slider: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  sliderLabel: {
+    color: '#A0AEC0',
+    fontSize: 12,
+    width: 24,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  btn: {
+    flex: 1,
+    backgroundColor: '#FF8C00',
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  btnText: {
+    color: '#FFF',
+    fontWeight: '700',
+    fontSize: 15,
+  },
+  btnSecondary: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: '#3A4055',
+  },
+  btnSecondaryText: {
+    color: '#A0AEC0',
+    fontWeight: '700',
+    fontSize: 15,
+  },
+});
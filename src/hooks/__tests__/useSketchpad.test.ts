@@ -0,0 +1,121 @@
+import { act, renderHook } from '@testing-library/react-native';
+import { Layer, Point, Stroke } from '../../types';
+import { getSvgPathFromPoints, translationMatrix } from '../../utils/drawingUtils';
+import { createLayer } from '../../utils/layerUtils';
+import { useSketchpad } from '../useSketchpad';
+
+const point = (x: number, y: number): Point => ({ x, y, pressure: 0.5 });
+
+function makeStroke(id: string, coords: [number, number][]): Stroke {
+  const points = coords.map(([x, y]) => point(x, y));
+  return { id, points, color: '#000000', strokeWidth: 2, brushType: 'pen', pathData: getSvgPathFromPoints(points) };
+}
+
+/**
+ * Dessin de départ : `a` et `b` sur L1, `c` sur L2 (calque actif).
+ * Les requêtes du hook passent par l'index spatial : elles ne trouvent un
+ * tracé à sa position que si l'index a suivi la dernière modification.
+ */
+function setup() {
+  const layers: Layer[] = [
+    { ...createLayer('Calque 1', [makeStroke('a', [[10, 10], [60, 40]]), makeStroke('b', [[300, 300], [420, 310]])]), id: 'L1' },
+    { ...createLayer('Calque 2', [makeStroke('c', [[900, 50], [950, 90]])]), id: 'L2' },
+  ];
+  const hook = renderHook(() => useSketchpad());
+  act(() => hook.result.current.loadLayers(layers));
+  return hook;
+}
+
+type Sketchpad = ReturnType<typeof setup>['result'];
+
+const near = (result: Sketchpad, x: number, y: number, radius = 5) =>
+  result.current
+    .getStrokesNear(x, y, radius)
+    .map(s => s.id)
+    .sort();
+
+describe('useSketchpad : index spatial', () => {
+  it('trouve un tracé dessiné, le perd à l’undo, le retrouve au redo', () => {
+    const { result } = setup();
+    act(() => result.current.startDrawing(point(500, 500)));
+    act(() => result.current.continueDrawing(point(520, 510)));
+    act(() => result.current.continueDrawing(point(540, 530)));
+    act(() => result.current.endDrawing());
+    const id = result.current.layers[1].strokes[1].id;
+    expect(near(result, 520, 510)).toEqual([id]);
+
+    act(() => result.current.undo());
+    expect(near(result, 520, 510)).toEqual([]);
+    act(() => result.current.redo());
+    expect(near(result, 520, 510)).toEqual([id]);
+  });
+
+  it('oublie un tracé supprimé', () => {
+    const { result } = setup();
+    act(() => result.current.removeStroke('b'));
+    expect(near(result, 350, 305)).toEqual([]);
+    act(() => result.current.undo());
+    expect(near(result, 350, 305)).toEqual(['b']);
+  });
+
+  it('suit une transformation, en direct puis à l’undo', () => {
+    const { result } = setup();
+    act(() => result.current.toggleSelection('a'));
+    const base = result.current.layers;
+    act(() => result.current.beginTransform());
+    act(() => result.current.updateTransform(translationMatrix(100, 0)));
+    expect(near(result, 130, 20)).toEqual(['a']);
+    act(() => result.current.updateTransform(translationMatrix(500, 500)));
+    // Calques du début du geste, pour les pictures du canvas
+    expect(result.current.transformBase).toBe(base);
+    act(() => result.current.endTransform());
+    expect(result.current.transformBase).toBeNull();
+    expect(near(result, 130, 20)).toEqual([]);
+    expect(near(result, 530, 520)).toEqual(['a']);
+
+    act(() => result.current.undo());
+    expect(near(result, 30, 20)).toEqual(['a']);
+    expect(near(result, 530, 520)).toEqual([]);
+  });
+
+  it('oublie les tracés d’un calque supprimé, et les retrouve à l’undo', () => {
+    const { result } = setup();
+    act(() => result.current.removeLayer('L2'));
+    expect(near(result, 920, 70)).toEqual([]);
+    act(() => result.current.undo());
+    expect(near(result, 920, 70)).toEqual(['c']);
+  });
+
+  it('gomme partielle : seuls les morceaux restants sont indexés', () => {
+    const { result } = setup();
+    act(() => result.current.setActiveLayerId('L1'));
+    act(() => result.current.eraseAt(360, 305, 10));
+    const pieces = result.current.layers[0].strokes.filter(s => s.id !== 'a');
+    expect(pieces).toHaveLength(2);
+    expect(near(result, 360, 305)).toEqual([]);
+    expect(near(result, 305, 300)).toEqual([pieces[0].id]);
+    expect(near(result, 415, 310)).toEqual([pieces[1].id]);
+  });
+
+  it('sélection par rectangle et par lasso', () => {
+    const { result } = setup();
+    act(() => result.current.selectByRect({ x1: 0, y1: 0, x2: 450, y2: 320 }));
+    expect([...result.current.selection].sort()).toEqual(['a', 'b']);
+    act(() =>
+      result.current.selectByLasso([
+        { x: 880, y: 30 },
+        { x: 970, y: 30 },
+        { x: 970, y: 110 },
+      ])
+    );
+    expect(result.current.selection).toEqual(['c']);
+  });
+
+  it('ignore les calques verrouillés', () => {
+    const { result } = setup();
+    act(() => result.current.updateLayer('L1', { locked: true }));
+    act(() => result.current.selectByRect({ x1: 0, y1: 0, x2: 1000, y2: 1000 }));
+    expect(result.current.selection).toEqual(['c']);
+    expect(near(result, 30, 20)).toEqual([]);
+  });
+});
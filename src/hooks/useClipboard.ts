@@ -0,0 +1,50 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import * as Clipboard from 'expo-clipboard';
+import { Stroke } from '../types';
+import { generateSvgContent } from '../utils/drawingUtils';
+import { createLayer } from '../utils/layerUtils';
+
+/**
+ * Presse-papiers applicatif : stocké au niveau du module (et non dans un écran)
+ * pour survivre à la navigation galerie → autre dessin.
+ */
+let clipboardStrokes: Stroke[] = [];
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return clipboardStrokes;
+}
+
+export function useClipboard() {
+  const strokes = useSyncExternalStore(subscribe, getSnapshot);
+
+  /**
+   * Copie les tracés dans le presse-papiers applicatif, et une version SVG
+   * (recadrée sur la sélection) dans le presse-papiers système.
+   */
+  const copy = useCallback(async (toCopy: Stroke[], canvasWidth: number, canvasHeight: number) => {
+    if (toCopy.length === 0) return;
+    clipboardStrokes = toCopy;
+    listeners.forEach(l => l());
+    try {
+      const svg = generateSvgContent([createLayer('Sélection', toCopy)], canvasWidth, canvasHeight, { cropToContent: true });
+      await Clipboard.setStringAsync(svg);
+    } catch (e) {
+      // Le presse-papiers système est un bonus : le copier/coller interne reste fonctionnel
+      console.error(e);
+    }
+  }, []);
+
+  return {
+    strokes,
+    hasContent: strokes.length > 0,
+    copy,
+  };
+}
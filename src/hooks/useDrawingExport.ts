@@ -0,0 +1,73 @@
+import { useState, useCallback } from 'react';
+import { Alert } from 'react-native';
+import * as Sharing from 'expo-sharing';
+import * as FileSystem from 'expo-file-system';
+import { ExportFormat, ExportOptions, GridSettings, Layer } from '../types';
+import { generateSvgContent, getExportBounds } from '../utils/drawingUtils';
+import { generatePdfContent } from '../utils/pdfUtils';
+import { renderDrawingToPngBase64 } from '../components/SkiaCanvas';
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string; UTI: string }> = {
+  svg: { extension: 'svg', mimeType: 'image/svg+xml', UTI: 'public.svg-image' },
+  png: { extension: 'png', mimeType: 'image/png', UTI: 'public.png' },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+};
+
+/**
+ * Hook d'export : génère le fichier dans le cache (SVG, PNG ou PDF)
+ * puis le partage avec le type MIME correspondant. La grille du dessin
+ * n'est exportée que si `options.includeGrid` est vrai.
+ */
+export function useDrawingExport() {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportDrawing = useCallback(
+    async (
+      layers: Layer[],
+      width: number,
+      height: number,
+      name: string,
+      options: ExportOptions,
+      grid?: GridSettings
+    ) => {
+      setIsExporting(true);
+      try {
+        const { extension, mimeType, UTI } = FILE_TYPES[options.format];
+        const fileName = `${name.replace(/[^a-z0-9]/gi, '_')}_${Date.now()}.${extension}`;
+        const filePath = `${FileSystem.cacheDirectory}${fileName}`;
+        const svgOptions = { cropToContent: options.cropToContent, grid: options.includeGrid ? grid : undefined };
+
+        if (options.format === 'png') {
+          const bounds = getExportBounds(layers, width, height, options.cropToContent);
+          const base64 = renderDrawingToPngBase64(layers, bounds, options.scale, options.background, svgOptions.grid);
+          await FileSystem.writeAsStringAsync(filePath, base64, { encoding: FileSystem.EncodingType.Base64 });
+        } else {
+          const content =
+            options.format === 'pdf'
+              ? generatePdfContent(layers, width, height, svgOptions)
+              : generateSvgContent(layers, width, height, svgOptions);
+          await FileSystem.writeAsStringAsync(filePath, content, { encoding: FileSystem.EncodingType.UTF8 });
+        }
+
+        const canShare = await Sharing.isAvailableAsync();
+        if (canShare) {
+          await Sharing.shareAsync(filePath, {
+            mimeType,
+            UTI,
+            dialogTitle: `Exporter ${extension.toUpperCase()}`,
+          });
+        } else {
+          Alert.alert('Export', `Fichier ${extension.toUpperCase()} : ${filePath}`);
+        }
+      } catch (e) {
+        console.error(e);
+        Alert.alert('Erreur', "Impossible d'exporter le dessin.");
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    []
+  );
+
+  return { isExporting, exportDrawing };
+}
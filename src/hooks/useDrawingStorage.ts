@@ -1,12 +1,21 @@
 import { useState, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { nanoid } from 'nanoid/non-secure';
-import { Drawing, Stroke } from '../types';
+import { Drawing, GridSettings, Layer } from '../types';
 import { generateThumbnailSvg } from '../utils/drawingUtils';
+import { normalizeDrawing } from '../utils/layerUtils';
+import { simplifyLayers } from '../utils/simplifyUtils';
 
 const DRAWINGS_INDEX_KEY = 'drawings_index';
 const DRAWING_PREFIX = 'drawing_';
 
+/** Bilan d'un compactage : longueur du JSON sauvegardé (≈ octets) avant et après */
+export interface CompactReport {
+  bytesBefore: number;
+  bytesAfter: number;
+  removedPoints: number;
+}
+
 /**
  * Hook de gestion de la persistance des dessins via AsyncStorage.
  * Les dessins sont stockés individuellement (clé par dessin) pour éviter
@@ -33,11 +42,11 @@ export function useDrawingStorage() {
       for (const id of ids) {
         const drawingJson = await AsyncStorage.getItem(DRAWING_PREFIX + id);
         if (drawingJson) {
-          const drawing: Drawing = JSON.parse(drawingJson);
-          // On ne charge PAS les strokes complets pour la liste (perf)
+          const { strokes, ...drawing }: Drawing = JSON.parse(drawingJson);
+          // On ne charge PAS les calques complets pour la liste (perf)
           loadedDrawings.push({
             ...drawing,
-            strokes: [], // strokes chargés seulement à l'ouverture
+            layers: [], // calques chargés seulement à l'ouverture
           });
         }
       }
@@ -55,12 +64,12 @@ export function useDrawingStorage() {
     }
   }, []);
 
-  /** Charge un dessin complet avec ses strokes */
+  /** Charge un dessin complet avec ses calques (l'ancien format est converti) */
   const loadDrawingById = useCallback(async (id: string): Promise<Drawing | null> => {
     try {
       const drawingJson = await AsyncStorage.getItem(DRAWING_PREFIX + id);
       if (!drawingJson) return null;
-      return JSON.parse(drawingJson) as Drawing;
+      return normalizeDrawing(JSON.parse(drawingJson) as Drawing);
     } catch (e) {
       console.error(e);
       return null;
@@ -70,23 +79,25 @@ export function useDrawingStorage() {
   /** Crée ou met à jour un dessin */
   const saveDrawing = useCallback(
     async (
-      strokes: Stroke[],
+      layers: Layer[],
       canvasWidth: number,
       canvasHeight: number,
       name: string,
-      existingId?: string
+      existingId?: string,
+      grid?: GridSettings
     ): Promise<string> => {
       const id = existingId || nanoid();
       const now = new Date().toISOString();
 
-      const thumbnailSvg = generateThumbnailSvg(strokes, canvasWidth, canvasHeight);
+      const thumbnailSvg = generateThumbnailSvg(layers, canvasWidth, canvasHeight);
 
       const drawing: Drawing = {
         id,
         name,
-        strokes,
+        layers,
         canvasWidth,
         canvasHeight,
+        grid,
         thumbnailSvg,
         createdAt: existingId
           ? drawings.find(d => d.id === existingId)?.createdAt || now
@@ -105,8 +116,8 @@ export function useDrawingStorage() {
         await AsyncStorage.setItem(DRAWINGS_INDEX_KEY, JSON.stringify(ids));
       }
 
-      // Met à jour l'état local (sans les strokes complets)
-      const drawingForList: Drawing = { ...drawing, strokes: [] };
+      // Met à jour l'état local (sans les calques complets)
+      const drawingForList: Drawing = { ...drawing, layers: [] };
       setDrawings(prev => {
         const filtered = prev.filter(d => d.id !== id);
         return [drawingForList, ...filtered];
@@ -148,6 +159,31 @@ export function useDrawingStorage() {
     }
   }, []);
 
+  /**
+   * Simplifie tous les tracés d'un dessin sauvegardé (voir simplifyUtils).
+   * Le dessin n'est pas considéré comme modifié : sa date reste la même.
+   */
+  const compactDrawing = useCallback(async (id: string): Promise<CompactReport | null> => {
+    try {
+      const drawingJson = await AsyncStorage.getItem(DRAWING_PREFIX + id);
+      if (!drawingJson) return null;
+      const drawing = normalizeDrawing(JSON.parse(drawingJson) as Drawing);
+      const { layers, removedPoints } = simplifyLayers(drawing.layers);
+      const thumbnailSvg = generateThumbnailSvg(layers, drawing.canvasWidth, drawing.canvasHeight);
+      const compactJson = JSON.stringify({ ...drawing, layers, thumbnailSvg });
+      // Rien à gagner (les points figés par la simplification peuvent être plus longs) : on ne réécrit pas
+      if (removedPoints === 0 || compactJson.length >= drawingJson.length) {
+        return { bytesBefore: drawingJson.length, bytesAfter: drawingJson.length, removedPoints: 0 };
+      }
+      await AsyncStorage.setItem(DRAWING_PREFIX + id, compactJson);
+      setDrawings(prev => prev.map(d => (d.id === id ? { ...d, thumbnailSvg } : d)));
+      return { bytesBefore: drawingJson.length, bytesAfter: compactJson.length, removedPoints };
+    } catch (e) {
+      console.error(e);
+      return null;
+    }
+  }, []);
+
   return {
     drawings,
     isLoading,
@@ -157,5 +193,6 @@ export function useDrawingStorage() {
     saveDrawing,
     deleteDrawing,
     renameDrawing,
+    compactDrawing,
   };
 }
@@ -0,0 +1,47 @@
+import { ProfilerOnRenderCallback, useCallback, useEffect, useRef, useState } from 'react';
+
+export interface ReactRenderStats {
+  renders: number;
+  /** Durée moyenne d'un rendu React, en ms */
+  average: number;
+  /** Rendu le plus long (pire saccade), en ms */
+  worst: number;
+}
+
+/**
+ * Mesure la durée des rendus React d'un sous-arbre enveloppé dans un
+ * <Profiler onRender={onRender}> tant que `active` est vrai (actualDuration :
+ * construction de l'arbre Skia et enregistrement des pictures compris), et
+ * publie les statistiques du dernier geste quand il se termine. Le dessin
+ * Skia et le temps GPU n'y sont pas : l'overlay `debug` du Canvas les affiche.
+ * Les durées ne sont fournies que par les builds de développement (ou de
+ * profilage).
+ */
+export function useReactRenderStats(
+  active: boolean
+): { stats: ReactRenderStats | null; onRender: ProfilerOnRenderCallback } {
+  const [stats, setStats] = useState<ReactRenderStats | null>(null);
+  // null hors d'un geste : les rendus ne sont pas comptés
+  const durationsRef = useRef<number[] | null>(null);
+
+  useEffect(() => {
+    if (!active) return;
+    durationsRef.current = [];
+    return () => {
+      const durations = durationsRef.current ?? [];
+      durationsRef.current = null;
+      if (durations.length === 0) return;
+      setStats({
+        renders: durations.length,
+        average: durations.reduce((sum, v) => sum + v, 0) / durations.length,
+        worst: Math.max(...durations),
+      });
+    };
+  }, [active]);
+
+  const onRender = useCallback<ProfilerOnRenderCallback>((_id, _phase, actualDuration) => {
+    durationsRef.current?.push(actualDuration);
+  }, []);
+
+  return { stats, onRender };
+}
@@ -1,47 +1,277 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { nanoid } from 'nanoid/non-secure'; // version sans crypto, compatible RN
-import { getSvgPathFromPoints, getStrokeBoundingBox } from '../utils/drawingUtils';
-import { BrushType, Point, Stroke, SelectionRect } from '../types';
+import {
+  getSvgPathFromPoints,
+  getStrokePathData,
+  getStrokeBoundingBox,
+  getStrokesBoundingBox,
+  transformStroke,
+  restyleStroke,
+  translationMatrix,
+  eraseCircleFromStroke,
+  createSpatialIndex,
+  syncSpatialIndex,
+  querySpatialIndex,
+  getStrokesInRect,
+  getStrokesInLasso,
+  getBoxAround,
+} from '../utils/drawingUtils';
+import {
+  createLayer,
+  flattenLayers,
+  getNextLayerName,
+  getSelectableStrokes,
+  isLayerEditable,
+  mapEditableStrokes,
+  reorderStrokes,
+} from '../utils/layerUtils';
+import {
+  applyEntry,
+  diffStrokesOps,
+  getLayerProps,
+  invertEntry,
+  removeStrokesOps,
+  reorderStrokesOps,
+} from '../utils/history';
+import { getShapePoints, isClosedShape, isShapeType } from '../utils/shapeUtils';
+import { DEFAULT_FONT_SIZE, getTextBoxPoints } from '../utils/textUtils';
+import {
+  expandToUnits,
+  getSelectionUnitId,
+  getUnitMembers,
+  groupStrokes,
+  isInsideGroup,
+  remapGroupIds,
+  ungroupStrokes,
+} from '../utils/groupUtils';
+import { getAlignOffsets, getDistributeOffsets, Offset } from '../utils/alignUtils';
+import {
+  createStabilizer,
+  flushStabilizer,
+  stabilizePoint,
+  DEFAULT_STABILIZER,
+  StabilizerState,
+} from '../utils/stabilizerUtils';
+import { simplifyStroke } from '../utils/simplifyUtils';
+import {
+  BrushType,
+  EraserMode,
+  HistoryEntry,
+  HistoryOp,
+  Point,
+  Stroke,
+  SelectionRect,
+  Matrix2D,
+  Layer,
+  ShapeOptions,
+  TextData,
+  NibSettings,
+  MarkerMode,
+  SelectionMatchMode,
+  SelectionShape,
+  SelectionCombine,
+  StrokeStylePatch,
+  ZOrderAction,
+  AlignAction,
+  DistributeAxis,
+  BoundingBox,
+  StabilizerSettings,
+} from '../types';
+
+// Décalage appliqué aux tracés collés/dupliqués pour qu'ils ne masquent pas l'original
+const PASTE_OFFSET = 20;
+// Les entrées ne contiennent que les tracés touchés : on peut garder un historique profond
+const MAX_HISTORY = 500;
+// En dessous de cette taille (unités document), une forme est considérée comme un tap
+const MIN_SHAPE_SIZE = 2;
+
+// Propriétés d'un calque modifiables depuis le panneau des calques
+export type LayerPatch = Partial<Pick<Layer, 'name' | 'visible' | 'locked' | 'opacity'>>;
+
+const createInitialLayers = () => [createLayer('Calque 1')];
 
 export function useSketchpad() {
-  const [strokes, setStrokes] = useState<Stroke[]>([]);
-  const [undoStack, setUndoStack] = useState<Stroke[][]>([]);
-  const [redoStack, setRedoStack] = useState<Stroke[][]>([]);
+  const [layers, setLayers] = useState<Layer[]>(createInitialLayers);
+  const [activeLayerId, setActiveLayerId] = useState<string>(() => layers[0].id);
   const [currentStroke, setCurrentStroke] = useState<Stroke | null>(null);
 
   const [currentTool, setCurrentTool] = useState<BrushType>('pen');
   const [currentColor, setCurrentColor] = useState<string>('#000000');
   const [currentWidth, setCurrentWidth] = useState<number>(5);
+  const [eraserMode, setEraserMode] = useState<EraserMode>('stroke');
+  const [shapeOptions, setShapeOptionsState] = useState<ShapeOptions>({
+    filled: false,
+    constrain: false,
+    polygonSides: 6,
+  });
+  // Plume de la calligraphie : 45°, épaisseur 15% de la longueur
+  const [nib, setNibState] = useState<NibSettings>({ angle: Math.PI / 4, aspect: 0.15 });
+  const [stabilizer, setStabilizerState] = useState<StabilizerSettings>(DEFAULT_STABILIZER);
+  const [markerMode, setMarkerMode] = useState<MarkerMode>('highlight');
+  const [currentFontSize, setCurrentFontSize] = useState<number>(DEFAULT_FONT_SIZE);
+  const [selectionMatch, setSelectionMatch] = useState<SelectionMatchMode>('touch');
+  const [selectionShape, setSelectionShape] = useState<SelectionShape>('rect');
+  const [selectionCombine, setSelectionCombine] = useState<SelectionCombine>('replace');
 
   const [selection, setSelection] = useState<string[]>([]);
   const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Chemin des groupes ouverts (voir groupUtils) : vide = premier niveau
+  const [groupPath, setGroupPath] = useState<string[]>([]);
   const [isDirty, setIsDirty] = useState(false);
 
+  // Refs = source de vérité synchrone : plusieurs événements tactiles peuvent
+  // arriver avant un rendu, et undo/redo ne doivent jamais lire un état périmé.
+  const layersRef = useRef<Layer[]>(layers);
+  const currentStrokeRef = useRef<Stroke | null>(null);
+  // Point de départ de la forme en cours (les points sont régénérés à chaque move)
+  const shapeStartRef = useRef<Point | null>(null);
+  // Stabilisateur du tracé à main levée en cours (null hors tracé ou sans stabilisateur)
+  const stabilizerRef = useRef<StabilizerState | null>(null);
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
+  // Index spatial des tracés de tous les calques, resynchronisé à chaque commit
+  const spatialIndexRef = useRef(createSpatialIndex());
+  // Transaction ouverte : les opérations s'y accumulent jusqu'à endTransaction
+  const transactionRef = useRef<{ depth: number; ops: HistoryOp[] } | null>(null);
+  // État des calques au début d'une transformation (null hors geste) ; l'état
+  // sert au rendu (pictures figées pendant le geste), la ref aux callbacks
+  const transformBaseRef = useRef<Layer[] | null>(null);
+  const [transformBase, setTransformBase] = useState<Layer[] | null>(null);
+
+  // Tous les tracés (calques de bas en haut) et calque actif
+  const strokes = flattenLayers(layers);
+  // Si le calque actif a disparu (undo, suppression), on se rabat sur celui du dessus
+  const activeLayer = layers.find(l => l.id === activeLayerId) ?? layers[layers.length - 1];
+
   const markClean = useCallback(() => setIsDirty(false), []);
   const markDirty = useCallback(() => setIsDirty(true), []);
 
-  const loadStrokes = useCallback((newStrokes: Stroke[]) => {
-    setStrokes(newStrokes);
-    setUndoStack([]);
-    setRedoStack([]);
-    setSelection([]);
-    setFocusedId(null);
-    setCurrentStroke(null);
-    setIsDirty(false);
+  const commitLayers = useCallback((next: Layer[]) => {
+    layersRef.current = next;
+    syncSpatialIndex(spatialIndexRef.current, next);
+    setLayers(next);
   }, []);
 
-  const saveStateToUndo = useCallback(
-    (currentStrokes: Stroke[]) => {
-      setUndoStack(prev => [...prev, currentStrokes].slice(-50));
-      setRedoStack([]);
+  const updateCurrentStroke = useCallback((next: Stroke | null) => {
+    currentStrokeRef.current = next;
+    setCurrentStroke(next);
+  }, []);
+
+  const syncHistorySize = useCallback(() => {
+    setHistorySize({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  }, []);
+
+  /** Retire de la sélection les tracés qui n'existent plus */
+  const pruneSelection = useCallback((next: Layer[]) => {
+    const existing = new Set(flattenLayers(next).map(s => s.id));
+    setSelection(prev => {
+      const kept = prev.filter(id => existing.has(id));
+      return kept.length === prev.length ? prev : kept;
+    });
+    setFocusedId(prev => (prev && !existing.has(prev) ? null : prev));
+  }, []);
+
+  /** Enregistre une étape déjà appliquée aux calques (ou l'ajoute à la transaction ouverte) */
+  const record = useCallback(
+    (entry: HistoryEntry) => {
+      if (entry.length === 0) return;
+      if (transactionRef.current) {
+        transactionRef.current.ops.push(...entry);
+        markDirty();
+        return;
+      }
+      undoStackRef.current = [...undoStackRef.current, entry].slice(-MAX_HISTORY);
+      redoStackRef.current = [];
+      syncHistorySize();
       markDirty();
     },
-    [markDirty]
+    [syncHistorySize, markDirty]
+  );
+
+  /** Applique des opérations aux calques et les enregistre comme une seule étape d'undo */
+  const execute = useCallback(
+    (ops: HistoryOp[]) => {
+      if (ops.length === 0) return;
+      const next = applyEntry(layersRef.current, ops);
+      commitLayers(next);
+      pruneSelection(next);
+      record(ops);
+    },
+    [commitLayers, pruneSelection, record]
   );
 
+  /**
+   * Ouvre une transaction : toutes les opérations enregistrées jusqu'à
+   * endTransaction forment une seule étape d'undo (ex : un geste de gomme
+   * complet, du grant au release). Les appels peuvent être imbriqués.
+   */
+  const beginTransaction = useCallback(() => {
+    if (transactionRef.current) transactionRef.current.depth++;
+    else transactionRef.current = { depth: 1, ops: [] };
+  }, []);
+
+  /** Ferme la transaction ; la plus externe enregistre l'étape si elle n'est pas vide */
+  const endTransaction = useCallback(() => {
+    const tx = transactionRef.current;
+    if (!tx) return;
+    tx.depth--;
+    if (tx.depth > 0) return;
+    transactionRef.current = null;
+    record(tx.ops);
+  }, [record]);
+
+  const loadLayers = useCallback((newLayers: Layer[]) => {
+    const next = newLayers.length > 0 ? newLayers : createInitialLayers();
+    commitLayers(next);
+    setActiveLayerId(next[next.length - 1].id);
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    transactionRef.current = null;
+    syncHistorySize();
+    setSelection([]);
+    setFocusedId(null);
+    updateCurrentStroke(null);
+    setIsDirty(false);
+  }, [commitLayers, syncHistorySize, updateCurrentStroke]);
+
+  const setShapeOptions = useCallback((patch: Partial<ShapeOptions>) => {
+    setShapeOptionsState(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  const setNib = useCallback((patch: Partial<NibSettings>) => {
+    setNibState(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  const setStabilizer = useCallback((patch: Partial<StabilizerSettings>) => {
+    setStabilizerState(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  /**
+   * `simulatePressure` : l'appareil ne fournit pas de pression (elle sera déduite de la vitesse).
+   * `scale` : zoom courant, la corde du stabilisateur se mesure en pixels écran.
+   */
   const startDrawing = useCallback(
-    (point: Point) => {
-      if (currentTool === 'eraser' || currentTool === 'select') return;
+    (point: Point, simulatePressure = false, scale = 1) => {
+      // Les textes sont créés par un tap (voir addText), pas par un tracé
+      if (currentTool === 'eraser' || currentTool === 'select' || currentTool === 'text') return;
+      if (!isLayerEditable(activeLayer)) return;
+      if (isShapeType(currentTool)) {
+        shapeStartRef.current = point;
+        const closed = isClosedShape(currentTool);
+        const points = getShapePoints(currentTool, point, point, currentWidth, shapeOptions);
+        updateCurrentStroke({
+          id: nanoid(),
+          points,
+          color: currentColor,
+          strokeWidth: currentWidth,
+          brushType: currentTool,
+          pathData: getStrokePathData({ points, brushType: currentTool, closed }),
+          closed,
+          filled: closed && shapeOptions.filled,
+        });
+        return;
+      }
       const newStroke: Stroke = {
         id: nanoid(),
         points: [point],
@@ -49,75 +279,214 @@ export function useSketchpad() {
         strokeWidth: currentTool === 'calligraphy' ? currentWidth * 1.5 : currentWidth,
         brushType: currentTool,
         pathData: getSvgPathFromPoints([point]),
+        simulatePressure,
+        ...(currentTool === 'calligraphy' && { nib }),
+        ...(currentTool === 'marker' && { markerMode }),
       };
-      setCurrentStroke(newStroke);
+      stabilizerRef.current = stabilizer.mode !== 'none' ? createStabilizer(stabilizer, point, scale) : null;
+      updateCurrentStroke(newStroke);
     },
-    [currentTool, currentColor, currentWidth]
+    [currentTool, currentColor, currentWidth, shapeOptions, nib, markerMode, stabilizer, activeLayer, updateCurrentStroke]
   );
 
   const continueDrawing = useCallback((point: Point) => {
-    setCurrentStroke(prev => {
-      if (!prev) return prev;
-      const newPoints = [...prev.points, point];
-      return { ...prev, points: newPoints, pathData: getSvgPathFromPoints(newPoints) };
-    });
-  }, []);
+    const prev = currentStrokeRef.current;
+    if (!prev) return;
+    const start = shapeStartRef.current;
+    if (start && isShapeType(prev.brushType)) {
+      // Aperçu live : la forme est recalculée entre le point de départ et le doigt
+      const points = getShapePoints(prev.brushType, start, point, prev.strokeWidth, shapeOptions);
+      updateCurrentStroke({ ...prev, points, pathData: getStrokePathData({ ...prev, points }) });
+      return;
+    }
+    // Stabilisateur : le tracé suit le pinceau lissé, qui peut rester immobile
+    const stabilized = stabilizerRef.current ? stabilizePoint(stabilizerRef.current, point) : point;
+    if (!stabilized) return;
+    const newPoints = [...prev.points, stabilized];
+    updateCurrentStroke({ ...prev, points: newPoints, pathData: getSvgPathFromPoints(newPoints) });
+  }, [shapeOptions, updateCurrentStroke]);
 
   const endDrawing = useCallback(() => {
-    setCurrentStroke(prev => {
-      if (prev && prev.points.length > 0) {
-        setStrokes(s => {
-          const next = [...s, prev];
-          saveStateToUndo(s); // sauvegarde AVANT ajout
-          return next;
-        });
-      }
-      return null;
-    });
-  }, [saveStateToUndo]);
+    const tail = stabilizerRef.current ? flushStabilizer(stabilizerRef.current) : [];
+    const current = currentStrokeRef.current;
+    updateCurrentStroke(null);
+    shapeStartRef.current = null;
+    stabilizerRef.current = null;
+    if (!current || current.points.length === 0) return;
+    // La moyenne glissante rattrape le doigt au relâchement
+    const points = [...current.points, ...tail];
+    // Les échantillons bruts superflus ne sont ni gardés en mémoire ni sauvegardés
+    const stroke = simplifyStroke(
+      tail.length > 0 ? { ...current, points, pathData: getSvgPathFromPoints(points) } : current
+    );
+    if (isShapeType(stroke.brushType)) {
+      const bb = getStrokeBoundingBox(stroke);
+      if (Math.max(bb.maxX - bb.minX, bb.maxY - bb.minY) < MIN_SHAPE_SIZE) return;
+    }
+    const layer = layersRef.current.find(l => l.id === activeLayer.id);
+    if (!layer) return;
+    execute([{ type: 'add', layerId: layer.id, index: layer.strokes.length, stroke }]);
+  }, [activeLayer.id, execute, updateCurrentStroke]);
+
+  /** Abandonne le tracé en cours sans l'ajouter (ex : début d'un pinch-zoom) */
+  const cancelDrawing = useCallback(() => {
+    shapeStartRef.current = null;
+    stabilizerRef.current = null;
+    updateCurrentStroke(null);
+  }, [updateCurrentStroke]);
 
   const undo = useCallback(() => {
-    setUndoStack(prev => {
-      if (prev.length === 0) return prev;
-      const previousState = prev[prev.length - 1];
-      setRedoStack(r => [...r, strokes]);
-      setStrokes(previousState);
-      setSelection([]);
-      setFocusedId(null);
-      markDirty();
-      return prev.slice(0, -1);
-    });
-  }, [strokes, markDirty]);
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!entry) return;
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    redoStackRef.current = [...redoStackRef.current, entry];
+    commitLayers(applyEntry(layersRef.current, invertEntry(entry)));
+    syncHistorySize();
+    setSelection([]);
+    setFocusedId(null);
+    markDirty();
+  }, [commitLayers, syncHistorySize, markDirty]);
 
   const redo = useCallback(() => {
-    setRedoStack(prev => {
-      if (prev.length === 0) return prev;
-      const nextState = prev[prev.length - 1];
-      setUndoStack(u => [...u, strokes]);
-      setStrokes(nextState);
-      setSelection([]);
-      setFocusedId(null);
-      markDirty();
-      return prev.slice(0, -1);
-    });
-  }, [strokes, markDirty]);
-
-  const clear = useCallback(() => {
-    if (strokes.length === 0) return;
-    saveStateToUndo(strokes);
-    setStrokes([]);
+    const entry = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!entry) return;
+    redoStackRef.current = redoStackRef.current.slice(0, -1);
+    undoStackRef.current = [...undoStackRef.current, entry];
+    commitLayers(applyEntry(layersRef.current, entry));
+    syncHistorySize();
     setSelection([]);
     setFocusedId(null);
-  }, [strokes, saveStateToUndo]);
+    markDirty();
+  }, [commitLayers, syncHistorySize, markDirty]);
+
+  /** Efface les tracés de tous les calques modifiables (les calques verrouillés sont préservés) */
+  const clear = useCallback(() => {
+    const ids = new Set(getSelectableStrokes(layersRef.current).map(s => s.id));
+    execute(removeStrokesOps(layersRef.current, ids));
+  }, [execute]);
 
   const removeStroke = useCallback(
     (id: string) => {
-      saveStateToUndo(strokes);
-      setStrokes(prev => prev.filter(s => s.id !== id));
-      setSelection(prev => prev.filter(sId => sId !== id));
-      setFocusedId(prev => (prev === id ? null : prev));
+      const editable = layersRef.current.filter(isLayerEditable);
+      execute(removeStrokesOps(editable, new Set([id])));
+    },
+    [execute]
+  );
+
+  /**
+   * Gomme partielle : retire la partie des tracés du calque actif sous le cercle.
+   * Chaque tracé coupé est remplacé par ses morceaux restants (nouveaux ids).
+   */
+  const eraseAt = useCallback(
+    (x: number, y: number, radius: number) => {
+      const layer = layersRef.current.find(l => l.id === activeLayer.id);
+      if (!isLayerEditable(layer)) return;
+      // Seuls les tracés proches du cercle (index spatial) sont testés
+      const box = getBoxAround(x, y, radius);
+      const near = new Set(querySpatialIndex(spatialIndexRef.current, box, new Set([layer.id])).map(e => e.stroke.id));
+      if (near.size === 0) return;
+      const ops: HistoryOp[] = [];
+      // Du haut vers le bas : les index des tracés restant à traiter ne bougent pas
+      for (let i = layer.strokes.length - 1; i >= 0; i--) {
+        const stroke = layer.strokes[i];
+        if (!near.has(stroke.id)) continue;
+        const runs = eraseCircleFromStroke(stroke, x, y, radius);
+        if (!runs) continue;
+        ops.push({ type: 'remove', layerId: layer.id, index: i, stroke });
+        // Un texte ne se découpe pas : il est effacé en entier
+        if (stroke.text) continue;
+        runs.forEach((points, k) => {
+          // Un morceau de forme fermée devient une ligne ouverte
+          const piece = { ...stroke, id: nanoid(), points, closed: false };
+          ops.push({
+            type: 'add',
+            layerId: layer.id,
+            index: i + k,
+            stroke: { ...piece, pathData: getStrokePathData(piece) },
+          });
+        });
+      }
+      execute(ops);
+    },
+    [activeLayer.id, execute]
+  );
+
+  // ─── Textes ────────────────────────────────────────────────────────────────
+
+  /** Place un texte dans le calque actif, coin haut-gauche en (x, y) */
+  const addText = useCallback(
+    (x: number, y: number, content: string, fontSize: number) => {
+      const layer = layersRef.current.find(l => l.id === activeLayer.id);
+      if (!content.trim() || !isLayerEditable(layer)) return;
+      const text: TextData = { content, fontSize, rotation: 0 };
+      const points = getTextBoxPoints({ x, y }, text);
+      const stroke: Stroke = {
+        id: nanoid(),
+        points,
+        color: currentColor,
+        strokeWidth: 0,
+        brushType: 'text',
+        pathData: getStrokePathData({ points, brushType: 'text' }),
+        text,
+      };
+      execute([{ type: 'add', layerId: layer.id, index: layer.strokes.length, stroke }]);
+      setCurrentFontSize(fontSize);
     },
-    [strokes, saveStateToUndo]
+    [activeLayer.id, currentColor, execute]
+  );
+
+  /** Modifie le contenu et la taille d'un texte ; un contenu vide le supprime */
+  const updateText = useCallback(
+    (id: string, content: string, fontSize: number) => {
+      const editable = layersRef.current.filter(isLayerEditable);
+      if (!content.trim()) {
+        execute(removeStrokesOps(editable, new Set([id])));
+        return;
+      }
+      const layer = editable.find(l => l.strokes.some(s => s.id === id));
+      const before = layer?.strokes.find(s => s.id === id);
+      if (!layer || !before?.text) return;
+      const text: TextData = { ...before.text, content, fontSize };
+      const points = getTextBoxPoints(before.points[0], text);
+      const after: Stroke = { ...before, text, points, pathData: getStrokePathData({ ...before, points }) };
+      execute([{ type: 'restyle', layerId: layer.id, before, after }]);
+      setCurrentFontSize(fontSize);
+    },
+    [execute]
+  );
+
+  /**
+   * Change le style de tous les tracés sélectionnés (calques modifiables) :
+   * une seule étape d'undo.
+   */
+  const restyleSelected = useCallback(
+    (patch: StrokeStylePatch) => {
+      if (selection.length === 0) return;
+      const ids = new Set(selection);
+      const before = layersRef.current;
+      const after = mapEditableStrokes(before, strokes =>
+        strokes.map(s => (ids.has(s.id) ? restyleStroke(s, patch, nib) : s))
+      );
+      execute(diffStrokesOps(before, after, ids, 'restyle'));
+    },
+    [selection, nib, execute]
+  );
+
+  /**
+   * Premier plan / avancer / reculer / arrière-plan : la sélection se déplace
+   * dans chaque calque modifiable, en une seule étape d'undo.
+   */
+  const reorderSelected = useCallback(
+    (action: ZOrderAction) => {
+      if (selection.length === 0) return;
+      const ids = new Set(selection);
+      const ops = layersRef.current.filter(isLayerEditable).flatMap(layer => {
+        const next = reorderStrokes(layer.strokes, ids, action);
+        return next === layer.strokes ? [] : reorderStrokesOps(layer, next, ids);
+      });
+      execute(ops);
+    },
+    [selection, execute]
   );
 
   const toggleSelection = useCallback((id: string) => {
@@ -130,38 +499,295 @@ export function useSketchpad() {
   const clearSelection = useCallback(() => {
     setSelection([]);
     setFocusedId(null);
+    setGroupPath([]);
+  }, []);
+
+  /**
+   * Tap sur un tracé : ajoute ou retire toute son unité (groupe entier au
+   * niveau ouvert). Un tracé hors du groupe ouvert ramène au premier niveau.
+   */
+  const toggleUnit = useCallback(
+    (id: string) => {
+      const selectable = getSelectableStrokes(layersRef.current);
+      const stroke = selectable.find(s => s.id === id);
+      if (!stroke) return;
+      const entered = isInsideGroup(stroke, groupPath) ? groupPath : [];
+      if (entered !== groupPath) setGroupPath(entered);
+      const members = getUnitMembers(selectable, getSelectionUnitId(stroke, entered)).map(s => s.id);
+      setSelection(prev =>
+        members.every(m => prev.includes(m))
+          ? prev.filter(sId => !members.includes(sId))
+          : [...prev, ...members.filter(m => !prev.includes(m))]
+      );
+      setFocusedId(prev => (prev && members.includes(prev) ? null : prev));
+    },
+    [groupPath]
+  );
+
+  const removeFromSelection = useCallback((ids: string[]) => {
+    setSelection(prev => prev.filter(id => !ids.includes(id)));
+    setFocusedId(prev => (prev && ids.includes(prev) ? null : prev));
+  }, []);
+
+  /** Regroupe les tracés sélectionnés (une étape d'undo) ; la sélection devient le groupe */
+  const groupSelected = useCallback(() => {
+    const ids = new Set(selection);
+    const before = layersRef.current;
+    const selected = getSelectableStrokes(before).filter(s => ids.has(s.id));
+    if (selected.length < 2) return;
+    const grouped = new Map(groupStrokes(selected, nanoid()).map(s => [s.id, s]));
+    const after = mapEditableStrokes(before, strokes => strokes.map(s => grouped.get(s.id) ?? s));
+    execute(diffStrokesOps(before, after, ids, 'restyle'));
+  }, [selection, execute]);
+
+  /** Dissout les groupes sélectionnés au niveau ouvert (une étape d'undo) */
+  const ungroupSelected = useCallback(() => {
+    const ids = new Set(selection);
+    const before = layersRef.current;
+    const selected = getSelectableStrokes(before).filter(s => ids.has(s.id));
+    const ungrouped = new Map(ungroupStrokes(selected, groupPath).map(s => [s.id, s]));
+    const after = mapEditableStrokes(before, strokes => strokes.map(s => ungrouped.get(s.id) ?? s));
+    execute(diffStrokesOps(before, after, ids, 'restyle'));
+  }, [selection, groupPath, execute]);
+
+  /**
+   * Déplace chaque unité sélectionnée (tracé, ou groupe au niveau ouvert)
+   * selon `getOffsets`, calculé sur leurs bounding box : une étape d'undo.
+   */
+  const moveSelectedUnits = useCallback(
+    (getOffsets: (boxes: BoundingBox[]) => Offset[]) => {
+      const ids = new Set(selection);
+      const before = layersRef.current;
+      const units = new Map<string, Stroke[]>();
+      for (const stroke of getSelectableStrokes(before).filter(s => ids.has(s.id))) {
+        const unitId = getSelectionUnitId(stroke, groupPath);
+        units.set(unitId, [...(units.get(unitId) ?? []), stroke]);
+      }
+      if (units.size < 2) return;
+      const members = [...units.values()];
+      const offsets = getOffsets(members.map(m => getStrokesBoundingBox(m) as BoundingBox));
+      const moved = new Map<string, Stroke>();
+      members.forEach((strokes, i) => {
+        const { dx, dy } = offsets[i];
+        if (dx === 0 && dy === 0) return;
+        const m = translationMatrix(dx, dy);
+        strokes.forEach(s => moved.set(s.id, transformStroke(s, m)));
+      });
+      const after = mapEditableStrokes(before, strokes => strokes.map(s => moved.get(s.id) ?? s));
+      execute(diffStrokesOps(before, after, ids, 'transform'));
+    },
+    [selection, groupPath, execute]
+  );
+
+  const alignSelected = useCallback(
+    (action: AlignAction) => moveSelectedUnits(boxes => getAlignOffsets(boxes, action)),
+    [moveSelectedUnits]
+  );
+
+  const distributeSelected = useCallback(
+    (axis: DistributeAxis) => moveSelectedUnits(boxes => getDistributeOffsets(boxes, axis)),
+    [moveSelectedUnits]
+  );
+
+  /** Ouvre un groupe : ses sous-groupes et tracés deviennent sélectionnables un par un */
+  const enterGroup = useCallback((groupId: string) => {
+    const member = flattenLayers(layersRef.current).find(s => s.groupIds?.includes(groupId));
+    if (!member?.groupIds) return;
+    setGroupPath(member.groupIds.slice(0, member.groupIds.indexOf(groupId) + 1));
+    setFocusedId(null);
+  }, []);
+
+  /** Referme le groupe ouvert le plus imbriqué */
+  const exitGroup = useCallback(() => {
+    setGroupPath(prev => prev.slice(0, -1));
   }, []);
 
   const selectAll = useCallback(() => {
-    setSelection(strokes.map(s => s.id));
-  }, [strokes]);
+    setSelection(getSelectableStrokes(layers).map(s => s.id));
+  }, [layers]);
 
   const deleteSelected = useCallback(() => {
     if (selection.length === 0) return;
-    saveStateToUndo(strokes);
-    setStrokes(prev => prev.filter(s => !selection.includes(s.id)));
+    const editable = layersRef.current.filter(isLayerEditable);
+    execute(removeStrokesOps(editable, new Set(selection)));
     setSelection([]);
     setFocusedId(null);
-  }, [selection, strokes, saveStateToUndo]);
+  }, [selection, execute]);
+
+  /**
+   * Ajoute des copies des tracés (nouveaux ids, légèrement décalées)
+   * dans le calque actif et les sélectionne.
+   */
+  const pasteStrokes = useCallback(
+    (source: Stroke[]) => {
+      const layer = layersRef.current.find(l => l.id === activeLayer.id);
+      if (source.length === 0 || !isLayerEditable(layer)) return;
+      const offset = translationMatrix(PASTE_OFFSET, PASTE_OFFSET);
+      const copies = remapGroupIds(source).map(s => ({ ...transformStroke(s, offset), id: nanoid() }));
+      execute(
+        copies.map((stroke, k) => ({
+          type: 'add' as const,
+          layerId: layer.id,
+          index: layer.strokes.length + k,
+          stroke,
+        }))
+      );
+      setSelection(copies.map(s => s.id));
+      setFocusedId(null);
+    },
+    [activeLayer.id, execute]
+  );
+
+  const duplicateSelected = useCallback(() => {
+    pasteStrokes(strokes.filter(s => selection.includes(s.id)));
+  }, [strokes, selection, pasteStrokes]);
+
+  /** Applique le résultat d'une sélection par zone selon le mode de combinaison */
+  const applyZoneSelection = useCallback(
+    (ids: string[]) => {
+      // Un groupe touché est pris en entier
+      const units = expandToUnits(ids, getSelectableStrokes(layersRef.current), groupPath);
+      setSelection(prev => {
+        if (selectionCombine === 'add') return [...prev, ...units.filter(id => !prev.includes(id))];
+        if (selectionCombine === 'subtract') return prev.filter(id => !units.includes(id));
+        return units;
+      });
+      setFocusedId(null);
+    },
+    [selectionCombine, groupPath]
+  );
 
   const selectByRect = useCallback(
     (rect: SelectionRect) => {
-      const minX = Math.min(rect.x1, rect.x2);
-      const maxX = Math.max(rect.x1, rect.x2);
-      const minY = Math.min(rect.y1, rect.y2);
-      const maxY = Math.max(rect.y1, rect.y2);
-
-      const selectedIds = strokes
-        .filter(stroke => {
-          const bb = getStrokeBoundingBox(stroke);
-          return bb.maxX >= minX && bb.minX <= maxX && bb.maxY >= minY && bb.minY <= maxY;
-        })
-        .map(s => s.id);
-
-      setSelection(selectedIds);
-      setFocusedId(null);
+      const editable = new Set(layersRef.current.filter(isLayerEditable).map(l => l.id));
+      applyZoneSelection(getStrokesInRect(spatialIndexRef.current, rect, selectionMatch, editable));
+    },
+    [selectionMatch, applyZoneSelection]
+  );
+
+  /** Sélection par lasso : `points` est la boucle tracée, fermée implicitement */
+  const selectByLasso = useCallback(
+    (points: { x: number; y: number }[]) => {
+      const editable = new Set(layersRef.current.filter(isLayerEditable).map(l => l.id));
+      applyZoneSelection(getStrokesInLasso(spatialIndexRef.current, points, selectionMatch, editable));
+    },
+    [selectionMatch, applyZoneSelection]
+  );
+
+  /**
+   * Tracés dont l'emprise touche le carré de demi-côté `radius` autour de
+   * (x, y), via l'index spatial : calques modifiables, ou le seul `layerId`.
+   * Ordonnés de bas en haut (calques puis tracés), comme au rendu.
+   */
+  const getStrokesNear = useCallback((x: number, y: number, radius: number, layerId?: string): Stroke[] => {
+    const layers = layersRef.current.filter(l => isLayerEditable(l) && (!layerId || l.id === layerId));
+    const box = getBoxAround(x, y, radius);
+    const entries = querySpatialIndex(spatialIndexRef.current, box, new Set(layers.map(l => l.id)));
+    const near = new Set(entries.map(e => e.stroke));
+    if (near.size === 0) return [];
+    return layers.flatMap(l => l.strokes.filter(s => near.has(s)));
+  }, []);
+
+  /**
+   * Cibles d'aimantation : bounding boxes des tracés des calques visibles
+   * dont l'emprise touche `box`, hors `excludeIds` (la sélection déplacée).
+   */
+  const getSnapTargets = useCallback((box: BoundingBox, excludeIds: string[] = []): BoundingBox[] => {
+    const visible = new Set(layersRef.current.filter(l => l.visible).map(l => l.id));
+    const exclude = new Set(excludeIds);
+    return querySpatialIndex(spatialIndexRef.current, box, visible)
+      .filter(e => !exclude.has(e.stroke.id))
+      .map(e => getStrokeBoundingBox(e.stroke));
+  }, []);
+
+  /** Début d'un geste de transformation de la sélection */
+  const beginTransform = useCallback(() => {
+    transformBaseRef.current = layersRef.current;
+    setTransformBase(layersRef.current);
+  }, []);
+
+  /**
+   * Aperçu live : la matrice est toujours appliquée aux tracés d'origine,
+   * pas cumulée d'un mouvement à l'autre. Rien n'est enregistré avant endTransform.
+   */
+  const updateTransform = useCallback(
+    (matrix: Matrix2D) => {
+      const base = transformBaseRef.current;
+      if (!base) return;
+      commitLayers(
+        mapEditableStrokes(base, list =>
+          list.map(s => (selection.includes(s.id) ? transformStroke(s, matrix) : s))
+        )
+      );
+    },
+    [selection, commitLayers]
+  );
+
+  /** Fin du geste : une seule entrée d'undo pour toute la transformation */
+  const endTransform = useCallback(() => {
+    const base = transformBaseRef.current;
+    transformBaseRef.current = null;
+    setTransformBase(null);
+    if (!base) return;
+    record(diffStrokesOps(base, layersRef.current, new Set(selection), 'transform'));
+  }, [selection, record]);
+
+  /** Annule le geste en cours et restaure les tracés d'origine */
+  const cancelTransform = useCallback(() => {
+    const base = transformBaseRef.current;
+    transformBaseRef.current = null;
+    setTransformBase(null);
+    if (base) commitLayers(base);
+  }, [commitLayers]);
+
+  // ─── Calques ───────────────────────────────────────────────────────────────
+
+  /** Ajoute un calque au-dessus du calque actif et l'active */
+  const addLayer = useCallback(() => {
+    const current = layersRef.current;
+    const layer = createLayer(getNextLayerName(current));
+    const index = current.findIndex(l => l.id === activeLayer.id) + 1;
+    execute([{ type: 'addLayer', index, layer }]);
+    setActiveLayerId(layer.id);
+  }, [activeLayer.id, execute]);
+
+  /** Supprime un calque et ses tracés (il en reste toujours au moins un) */
+  const removeLayer = useCallback(
+    (id: string) => {
+      const current = layersRef.current;
+      const index = current.findIndex(l => l.id === id);
+      if (current.length <= 1 || index < 0) return;
+      execute([{ type: 'removeLayer', index, layer: current[index] }]);
+    },
+    [execute]
+  );
+
+  const updateLayer = useCallback(
+    (id: string, patch: LayerPatch) => {
+      const layer = layersRef.current.find(l => l.id === id);
+      if (!layer) return;
+      const before = getLayerProps(layer);
+      execute([{ type: 'updateLayer', layerId: id, before, after: { ...before, ...patch } }]);
+      // Un calque masqué ou verrouillé ne peut plus avoir de tracés sélectionnés
+      if (patch.visible === false || patch.locked === true) {
+        const layerIds = new Set(layer.strokes.map(s => s.id));
+        setSelection(prev => prev.filter(sId => !layerIds.has(sId)));
+        setFocusedId(prev => (prev && layerIds.has(prev) ? null : prev));
+      }
+    },
+    [execute]
+  );
+
+  /** Monte (+1) ou descend (-1) un calque dans l'ordre de rendu */
+  const moveLayer = useCallback(
+    (id: string, direction: 1 | -1) => {
+      const current = layersRef.current;
+      const from = current.findIndex(l => l.id === id);
+      const to = from + direction;
+      if (from < 0 || to < 0 || to >= current.length) return;
+      execute([{ type: 'moveLayer', from, to }]);
     },
-    [strokes]
+    [execute]
   );
 
   const toggleFocused = useCallback((id: string) => {
@@ -169,34 +795,86 @@ export function useSketchpad() {
   }, []);
 
   return {
+    layers,
+    activeLayer,
     strokes,
     currentStroke,
     currentTool,
     currentColor,
     currentWidth,
+    eraserMode,
+    shapeOptions,
+    nib,
+    stabilizer,
+    markerMode,
+    currentFontSize,
+    selectionMatch,
+    selectionShape,
+    selectionCombine,
     selection,
     focusedId,
+    groupPath,
+    transformBase,
     isDirty,
-    canUndo: undoStack.length > 0,
-    canRedo: redoStack.length > 0,
+    canUndo: historySize.undo > 0,
+    canRedo: historySize.redo > 0,
     setCurrentTool,
     setCurrentColor,
     setCurrentWidth,
+    setEraserMode,
+    setShapeOptions,
+    setNib,
+    setStabilizer,
+    setMarkerMode,
+    setSelectionMatch,
+    setSelectionShape,
+    setSelectionCombine,
     setFocusedId,
     startDrawing,
     continueDrawing,
     endDrawing,
+    cancelDrawing,
     undo,
     redo,
     clear,
     removeStroke,
+    eraseAt,
+    addText,
+    updateText,
+    restyleSelected,
+    reorderSelected,
     toggleSelection,
+    toggleUnit,
+    removeFromSelection,
+    groupSelected,
+    ungroupSelected,
+    enterGroup,
+    exitGroup,
+    alignSelected,
+    distributeSelected,
     toggleFocused,
     clearSelection,
     deleteSelected,
     selectAll,
     selectByRect,
-    loadStrokes,
+    selectByLasso,
+    getStrokesNear,
+    getSnapTargets,
+    pasteStrokes,
+    duplicateSelected,
+    beginTransform,
+    updateTransform,
+    endTransform,
+    cancelTransform,
+    setActiveLayerId,
+    addLayer,
+    removeLayer,
+    updateLayer,
+    moveLayer,
+    beginTransaction,
+    endTransaction,
+    loadLayers,
     markClean,
+    markDirty,
   };
 }
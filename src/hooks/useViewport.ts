@@ -0,0 +1,105 @@
+import { useState, useCallback, useRef } from 'react';
+import { getStrokesBoundingBox, screenToDocument } from '../utils/drawingUtils';
+import { Stroke, Viewport } from '../types';
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 10;
+const FIT_PADDING = 24;
+
+const IDENTITY: Viewport = { translateX: 0, translateY: 0, scale: 1 };
+
+interface TouchPoint {
+  x: number;
+  y: number;
+}
+
+interface PinchStart {
+  distance: number;
+  midX: number;
+  midY: number;
+  viewport: Viewport;
+}
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+/**
+ * Hook de gestion du viewport (pan + pinch-zoom à deux doigts).
+ * Les tracés restent en coordonnées document : seul le rendu est transformé,
+ * et les entrées tactiles sont ramenées en espace document via screenToDocument.
+ */
+export function useViewport() {
+  const [viewport, setViewport] = useState<Viewport>(IDENTITY);
+  // Ref synchronisée pour le PanResponder (évite les closures périmées)
+  const viewportRef = useRef<Viewport>(IDENTITY);
+  const pinchRef = useRef<PinchStart | null>(null);
+
+  const applyViewport = useCallback((next: Viewport) => {
+    viewportRef.current = next;
+    setViewport(next);
+  }, []);
+
+  const startPinch = useCallback((a: TouchPoint, b: TouchPoint) => {
+    pinchRef.current = {
+      distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      midX: (a.x + b.x) / 2,
+      midY: (a.y + b.y) / 2,
+      viewport: viewportRef.current,
+    };
+  }, []);
+
+  /** Zoom autour du point médian initial + pan selon le déplacement du point médian */
+  const updatePinch = useCallback((a: TouchPoint, b: TouchPoint) => {
+    const start = pinchRef.current;
+    if (!start) return;
+    const distance = Math.max(1, Math.hypot(b.x - a.x, b.y - a.y));
+    const midX = (a.x + b.x) / 2;
+    const midY = (a.y + b.y) / 2;
+    const scale = clampScale(start.viewport.scale * (distance / start.distance));
+    // Point document qui se trouvait sous le point médian au début du geste
+    const anchor = screenToDocument(start.midX, start.midY, start.viewport);
+    applyViewport({
+      translateX: midX - anchor.x * scale,
+      translateY: midY - anchor.y * scale,
+      scale,
+    });
+  }, [applyViewport]);
+
+  const endPinch = useCallback(() => {
+    pinchRef.current = null;
+  }, []);
+
+  const resetViewport = useCallback(() => applyViewport(IDENTITY), [applyViewport]);
+
+  /** Cadre l'ensemble des tracés dans la zone visible (ou revient à 100% si vide) */
+  const fitToContent = useCallback(
+    (strokes: Stroke[], width: number, height: number) => {
+      const bb = getStrokesBoundingBox(strokes);
+      if (!bb) {
+        applyViewport(IDENTITY);
+        return;
+      }
+      const contentW = Math.max(1, bb.maxX - bb.minX);
+      const contentH = Math.max(1, bb.maxY - bb.minY);
+      const scale = clampScale(
+        Math.min((width - FIT_PADDING * 2) / contentW, (height - FIT_PADDING * 2) / contentH)
+      );
+      applyViewport({
+        translateX: width / 2 - ((bb.minX + bb.maxX) / 2) * scale,
+        translateY: height / 2 - ((bb.minY + bb.maxY) / 2) * scale,
+        scale,
+      });
+    },
+    [applyViewport]
+  );
+
+  return {
+    viewport,
+    viewportRef,
+    isPinching: () => pinchRef.current !== null,
+    startPinch,
+    updatePinch,
+    endPinch,
+    resetViewport,
+    fitToContent,
+  };
+}
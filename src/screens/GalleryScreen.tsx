@@ -24,16 +24,21 @@ const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CARD_WIDTH = (SCREEN_WIDTH - 48) / 2;
 const CARD_HEIGHT = CARD_WIDTH * 0.75;
 
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} Ko` : `${(bytes / 1024 / 1024).toFixed(2)} Mo`;
+
 function DrawingCard({
   drawing,
   onOpen,
   onDelete,
   onRename,
+  onCompact,
 }: {
   drawing: Drawing;
   onOpen: () => void;
   onDelete: () => void;
   onRename: () => void;
+  onCompact: () => void;
 }) {
   const date = new Date(drawing.updatedAt);
   const dateStr = date.toLocaleDateString('fr-FR', { day: '2-digit', month: 'short' });
@@ -64,6 +69,13 @@ function DrawingCard({
             >
               <Ionicons name="pencil-outline" size={14} color="#A0AEC0" />
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cardActionBtn}
+              onPress={onCompact}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons name="contract-outline" size={14} color="#A0AEC0" />
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.cardActionBtn}
               onPress={onDelete}
@@ -137,7 +149,7 @@ const renameStyles = StyleSheet.create({
 });
 
 export function GalleryScreen() {
-  const { drawings, isLoading, loadDrawings, deleteDrawing, renameDrawing } = useDrawingStorage();
+  const { drawings, isLoading, loadDrawings, deleteDrawing, renameDrawing, compactDrawing } = useDrawingStorage();
 
   useFocusEffect(
     useCallback(() => {
@@ -168,6 +180,25 @@ export function GalleryScreen() {
     );
   }, [deleteDrawing]);
 
+  /** Simplifie les tracés du dessin et affiche la place gagnée */
+  const handleCompact = useCallback(async (drawing: Drawing) => {
+    const report = await compactDrawing(drawing.id);
+    if (!report) {
+      Alert.alert('Erreur', 'Impossible de compacter le dessin.');
+      return;
+    }
+    if (report.removedPoints === 0) {
+      Alert.alert('Compacter', `"${drawing.name}" est déjà compact (${formatSize(report.bytesBefore)}).`);
+      return;
+    }
+    const saved = Math.round((1 - report.bytesAfter / report.bytesBefore) * 100);
+    Alert.alert(
+      'Dessin compacté ✓',
+      `${report.removedPoints} points retirés.\n` +
+        `${formatSize(report.bytesBefore)} → ${formatSize(report.bytesAfter)} (−${saved} %)`
+    );
+  }, [compactDrawing]);
+
   const [renameTarget, setRenameTarget] = useState<Drawing | null>(null);
 
   const handleRename = useCallback((drawing: Drawing) => {
@@ -180,7 +211,13 @@ export function GalleryScreen() {
 
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Mes dessins</Text>
+        {/* Appui long (dev) : dessin de benchmark du rendu */}
+        <Text
+          style={styles.headerTitle}
+          onLongPress={__DEV__ ? () => router.push({ pathname: '/benchmark' }) : undefined}
+        >
+          Mes dessins
+        </Text>
         <TouchableOpacity style={styles.newBtn} onPress={handleNew} activeOpacity={0.8}>
           <Ionicons name="add" size={20} color="#FFF" />
           <Text style={styles.newBtnText}>Nouveau</Text>
@@ -216,6 +253,7 @@ export function GalleryScreen() {
               onOpen={() => handleOpen(item)}
               onDelete={() => handleDelete(item)}
               onRename={() => handleRename(item)}
+              onCompact={() => handleCompact(item)}
             />
           )}
         />
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, Profiler } from 'react';
 import {
   View,
   StyleSheet,
@@ -7,24 +7,60 @@ import {
   Text,
   Dimensions,
   PanResponder,
+  GestureResponderEvent,
   StatusBar,
-  Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import * as Sharing from 'expo-sharing';
-import * as FileSystem from 'expo-file-system';
 import { router } from 'expo-router';
 import { SkiaCanvas } from '../components/SkiaCanvas';
 import { DrawingToolbar } from '../components/DrawingToolbar';
 import { SelectionPanel } from '../components/SelectionPanel';
+import { LayerPanel } from '../components/LayerPanel';
+import { TextEditModal } from '../components/TextEditModal';
+import { ExportSheet } from '../components/ExportSheet';
+import { GridSheet } from '../components/GridSheet';
 import { useSketchpad } from '../hooks/useSketchpad';
 import { useDrawingStorage } from '../hooks/useDrawingStorage';
-import { generateSvgContent } from '../utils/drawingUtils';
-import { Point, Stroke } from '../types';
+import { useViewport } from '../hooks/useViewport';
+import { useClipboard } from '../hooks/useClipboard';
+import { useDrawingExport } from '../hooks/useDrawingExport';
+import { useReactRenderStats } from '../hooks/useReactRenderStats';
+import { flattenLayers, getSelectableStrokes, isLayerEditable } from '../utils/layerUtils';
+import { isShapeType } from '../utils/shapeUtils';
+import { DEFAULT_GRID, SNAP_DISTANCE, snapBox, snapPoint } from '../utils/gridUtils';
+import {
+  screenToDocument,
+  getStrokesBoundingBox,
+  getSelectionHandles,
+  hitTestSelectionHandles,
+  getHandleTransform,
+  isPointInPolygon,
+  hitTestStroke,
+  getBoxAround,
+  SelectionHandles,
+} from '../utils/drawingUtils';
+import {
+  Point,
+  Stroke,
+  Layer,
+  TransformHandle,
+  ExportOptions,
+  BoundingBox,
+  GridSettings,
+  SnapGuide,
+} from '../types';
 
 const DRAG_THRESHOLD = 5;
+// Rayon de la gomme "tracé entier", en pixels écran
+const STROKE_ERASER_RADIUS = 20;
+// Tolérance d'un tap de sélection autour de l'encre, en pixels écran
+const TAP_TOLERANCE = 12;
+// Espacement minimal entre deux points du lasso, en pixels écran
+const LASSO_STEP = 4;
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+// Référence stable : effacer des guides déjà vides ne provoque pas de rendu
+const NO_GUIDES: SnapGuide[] = [];
 
 interface DragRect {
   x: number;
@@ -33,39 +69,103 @@ interface DragRect {
   height: number;
 }
 
+interface EraserCursor {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+interface TransformGesture {
+  handle: TransformHandle;
+  handles: SelectionHandles;
+  /** Bounding box de la sélection au début du geste (aimantation du déplacement) */
+  box: BoundingBox;
+  start: { x: number; y: number };
+  moved: boolean;
+}
+
+/** Texte en cours de saisie : nouveau (position du tap) ou existant */
+type TextEditor =
+  | { mode: 'create'; x: number; y: number }
+  | { mode: 'edit'; id: string; content: string; fontSize: number; color: string };
+
 interface SketchScreenProps {
   drawingId?: string;
   drawingName?: string;
-  initialStrokes?: Stroke[];
+  initialLayers?: Layer[];
+  /** Grille sauvegardée avec le dessin */
+  initialGrid?: GridSettings;
+  /** Affiche le temps de rendu des tracés et permet de couper le cache de rendu */
+  benchmark?: boolean;
 }
 
-function findNearestStrokeId(x: number, y: number, strokes: Stroke[], radius: number): string | null {
-  let bestId: string | null = null;
-  let bestDist = radius;
-  for (const stroke of strokes) {
-    for (const pt of stroke.points) {
-      const d = Math.sqrt((pt.x - x) ** 2 + (pt.y - y) ** 2);
-      if (d < bestDist) { bestDist = d; bestId = stroke.id; }
-    }
+/**
+ * Tracé touché au point (x, y) à `tolerance` près : le plus haut dans l'ordre
+ * de rendu (`strokes` est ordonné de bas en haut).
+ */
+function findTopmostStrokeId(x: number, y: number, strokes: Stroke[], tolerance: number): string | null {
+  for (let i = strokes.length - 1; i >= 0; i--) {
+    if (hitTestStroke(strokes[i], x, y, tolerance)) return strokes[i].id;
   }
-  return bestId;
+  return null;
+}
+
+/** Un lasso qui tient dans le seuil de drag est un simple tap */
+function isTapLasso(points: { x: number; y: number }[], scale: number): boolean {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) * scale < DRAG_THRESHOLD;
 }
 
-export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStrokes }: SketchScreenProps) {
+/**
+ * Pression du capteur, ou null si l'événement n'en fournit pas. Seul iOS en
+ * fournit (Apple Pencil, écrans 3D Touch) : React Native y divise déjà la
+ * force par maximumPossibleForce. Les événements tactiles Android n'ont pas
+ * de force : la pression y est simulée depuis la vitesse.
+ */
+function getHardwarePressure(force: number | undefined): number | null {
+  return force && force > 0 ? Math.min(1, force) : null;
+}
+
+/** Positions écran (relatives au canvas) de tous les doigts posés */
+function getTouchPoints(evt: GestureResponderEvent, layout: { x: number; y: number }) {
+  return evt.nativeEvent.touches.map(t => ({ x: t.pageX - layout.x, y: t.pageY - layout.y }));
+}
+
+export function SketchScreen({
+  drawingId,
+  drawingName = 'Sans titre',
+  initialLayers,
+  initialGrid,
+  benchmark,
+}: SketchScreenProps) {
   const [canvasLayout, setCanvasLayout] = useState({ x: 0, y: 0, width: SCREEN_WIDTH, height: SCREEN_HEIGHT });
   const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
   const [dragRect, setDragRect] = useState<DragRect | null>(null);
+  const [lasso, setLasso] = useState<{ x: number; y: number }[] | null>(null);
+  const [eraserCursor, setEraserCursor] = useState<EraserCursor | null>(null);
   const [currentDrawingId, setCurrentDrawingId] = useState<string | undefined>(drawingId);
   const [name] = useState(drawingName);
   const [isSaving, setIsSaving] = useState(false);
+  const [showLayers, setShowLayers] = useState(false);
+  const [textEditor, setTextEditor] = useState<TextEditor | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [grid, setGrid] = useState<GridSettings>(initialGrid ?? DEFAULT_GRID);
+  const [showGrid, setShowGrid] = useState(false);
+  const [guides, setGuides] = useState<SnapGuide[]>(NO_GUIDES);
 
   const sketch = useSketchpad();
   const storage = useDrawingStorage();
+  const viewport = useViewport();
+  const clipboard = useClipboard();
+  const exporter = useDrawingExport();
+  const [cacheStrokes, setCacheStrokes] = useState(true);
+  const renderStats = useReactRenderStats(!!benchmark && sketch.currentStroke !== null);
 
-  // Charger les tracés initiaux (mode édition)
+  // Charger les calques initiaux (mode édition)
   useEffect(() => {
-    if (initialStrokes && initialStrokes.length > 0) {
-      sketch.loadStrokes(initialStrokes);
+    if (initialLayers && initialLayers.length > 0) {
+      sketch.loadLayers(initialLayers);
     }
   }, []); // une seule fois au montage
 
@@ -76,7 +176,150 @@ export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStr
   const canvasLayoutRef = useRef(canvasLayout);
   canvasLayoutRef.current = canvasLayout;
   const setDragRectRef = useRef(setDragRect);
+  const setLassoRef = useRef(setLasso);
+  // Boucle du lasso en cours (coordonnées document)
+  const lassoPointsRef = useRef<{ x: number; y: number }[] | null>(null);
   const setDragStartRef = useRef(setDragStart);
+  const setEraserCursorRef = useRef(setEraserCursor);
+  const setTextEditorRef = useRef(setTextEditor);
+  const gridRef = useRef(grid);
+  gridRef.current = grid;
+  const setGuidesRef = useRef(setGuides);
+  const lastEraserPosRef = useRef<{ x: number; y: number } | null>(null);
+  const isErasingRef = useRef(false);
+  const viewportHookRef = useRef(viewport);
+  viewportHookRef.current = viewport;
+  // Le geste courant est devenu un pinch : on ignore le reste jusqu'au relâchement
+  const isPinchGestureRef = useRef(false);
+  // Geste de transformation de la sélection (déplacement / échelle / rotation)
+  const transformGestureRef = useRef<TransformGesture | null>(null);
+
+  const cancelSelectionDrag = () => {
+    dragStartRef.current = null;
+    setDragStartRef.current(null);
+    setDragRectRef.current(null);
+    lassoPointsRef.current = null;
+    setLassoRef.current(null);
+  };
+
+  /** Tap sur le canvas avec l'outil sélection : ajoute/retire le tracé touché le plus haut */
+  const toggleNearestStroke = (x: number, y: number, scale: number) => {
+    const tolerance = TAP_TOLERANCE / scale;
+    const candidates = sketchRef.current.getStrokesNear(x, y, tolerance);
+    const nearId = findTopmostStrokeId(x, y, candidates, tolerance);
+    if (nearId) sketchRef.current.toggleUnit(nearId);
+  };
+
+  /** Tap avec l'outil texte : édite le texte touché, sinon en crée un nouveau au point */
+  const openTextEditor = (x: number, y: number) => {
+    const s = sketchRef.current;
+    if (!isLayerEditable(s.activeLayer)) return;
+    const texts = getSelectableStrokes(s.layers).filter(st => st.text);
+    // Du dessus vers le dessous : le texte visible au premier plan l'emporte
+    const hit = [...texts].reverse().find(st => isPointInPolygon(x, y, st.points));
+    if (hit?.text) {
+      setTextEditorRef.current({ mode: 'edit', id: hit.id, content: hit.text.content, fontSize: hit.text.fontSize, color: hit.color });
+    } else {
+      setTextEditorRef.current({ mode: 'create', x, y });
+    }
+  };
+
+  /** Démarre une transformation si le doigt est sur la sélection ou une de ses poignées */
+  const tryBeginTransform = (x: number, y: number, scale: number): boolean => {
+    const { strokes, selection } = sketchRef.current;
+    if (selection.length === 0) return false;
+    const bb = getStrokesBoundingBox(strokes.filter(st => selection.includes(st.id)));
+    if (!bb) return false;
+    const handles = getSelectionHandles(bb, scale);
+    const handle = hitTestSelectionHandles(handles, x, y, scale);
+    if (!handle) return false;
+    transformGestureRef.current = { handle, handles, box: bb, start: { x, y }, moved: false };
+    sketchRef.current.beginTransform();
+    return true;
+  };
+
+  /** Aimante une extrémité de forme sur la grille et les bords des tracés voisins */
+  const snapShapePoint = (x: number, y: number, scale: number) => {
+    const g = gridRef.current;
+    const threshold = SNAP_DISTANCE / scale;
+    const targets = g.snapToStrokes ? sketchRef.current.getSnapTargets(getBoxAround(x, y, threshold)) : [];
+    const snapped = snapPoint(x, y, g, targets, threshold);
+    setGuidesRef.current(snapped.guides.length > 0 ? snapped.guides : NO_GUIDES);
+    return snapped;
+  };
+
+  /**
+   * Position du doigt corrigée pour que la boîte de la sélection déplacée
+   * s'aimante sur la grille et les bords des autres tracés.
+   */
+  const snapMove = (tg: TransformGesture, x: number, y: number, scale: number) => {
+    const g = gridRef.current;
+    const threshold = SNAP_DISTANCE / scale;
+    const dx = x - tg.start.x;
+    const dy = y - tg.start.y;
+    const box = { minX: tg.box.minX + dx, minY: tg.box.minY + dy, maxX: tg.box.maxX + dx, maxY: tg.box.maxY + dy };
+    const near = { minX: box.minX - threshold, minY: box.minY - threshold, maxX: box.maxX + threshold, maxY: box.maxY + threshold };
+    const targets = g.snapToStrokes ? sketchRef.current.getSnapTargets(near, sketchRef.current.selection) : [];
+    const snap = snapBox(box, g, targets, threshold);
+    setGuidesRef.current(snap.guides.length > 0 ? snap.guides : NO_GUIDES);
+    return { x: x + snap.dx, y: y + snap.dy };
+  };
+
+  /**
+   * Gomme au point (x, y) en coordonnées document, uniquement sur le calque actif.
+   * En mode partiel, le rayon suit l'épaisseur courante et le trajet depuis la
+   * position précédente est interpolé pour ne pas laisser de trous.
+   */
+  const eraseTo = (x: number, y: number, scale: number) => {
+    const s = sketchRef.current;
+    const radius = s.eraserMode === 'partial' ? s.currentWidth : STROKE_ERASER_RADIUS / scale;
+    setEraserCursorRef.current({ x, y, radius });
+    const last = lastEraserPosRef.current ?? { x, y };
+    lastEraserPosRef.current = { x, y };
+    if (!isLayerEditable(s.activeLayer)) return;
+
+    if (s.eraserMode === 'partial') {
+      const steps = Math.max(1, Math.ceil(Math.hypot(x - last.x, y - last.y) / (radius / 2)));
+      for (let i = 1; i <= steps; i++) {
+        const t = i / steps;
+        s.eraseAt(last.x + (x - last.x) * t, last.y + (y - last.y) * t, radius);
+      }
+      return;
+    }
+    const nearId = findTopmostStrokeId(x, y, s.getStrokesNear(x, y, radius, s.activeLayer.id), radius);
+    if (nearId) s.removeStroke(nearId);
+  };
+
+  /** Début du geste de gomme : tout le geste sera une seule étape d'undo */
+  const beginEraser = (x: number, y: number, scale: number) => {
+    isErasingRef.current = true;
+    sketchRef.current.beginTransaction();
+    eraseTo(x, y, scale);
+  };
+
+  const endEraser = () => {
+    lastEraserPosRef.current = null;
+    setEraserCursorRef.current(null);
+    if (isErasingRef.current) {
+      isErasingRef.current = false;
+      sketchRef.current.endTransaction();
+    }
+  };
+
+  /** Bascule en mode pinch : le tracé ou la sélection en cours est abandonné */
+  const beginPinch = (evt: GestureResponderEvent) => {
+    const [a, b] = getTouchPoints(evt, canvasLayoutRef.current);
+    isPinchGestureRef.current = true;
+    sketchRef.current.cancelDrawing();
+    cancelSelectionDrag();
+    endEraser();
+    setGuidesRef.current(NO_GUIDES);
+    if (transformGestureRef.current) {
+      transformGestureRef.current = null;
+      sketchRef.current.cancelTransform();
+    }
+    viewportHookRef.current.startPinch(a, b);
+  };
 
   const panResponder = useRef(
     PanResponder.create({
@@ -85,35 +328,81 @@ export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStr
       onShouldBlockNativeResponder: () => true,
 
       onPanResponderGrant: (evt) => {
+        isPinchGestureRef.current = false;
+        if (evt.nativeEvent.touches.length >= 2) {
+          beginPinch(evt);
+          return;
+        }
         const { pageX, pageY, force } = evt.nativeEvent;
         const layout = canvasLayoutRef.current;
-        const x = pageX - layout.x;
-        const y = pageY - layout.y;
-        const pressure = (Platform.OS === 'android' && force > 0) ? force : 0.5;
+        const { x, y } = screenToDocument(pageX - layout.x, pageY - layout.y, viewportHookRef.current.viewportRef.current);
+        const hardwarePressure = getHardwarePressure(force);
         const tool = sketchRef.current.currentTool;
 
         if (tool === 'select') {
+          if (tryBeginTransform(x, y, viewportHookRef.current.viewportRef.current.scale)) return;
           dragStartRef.current = { x, y };
           setDragStartRef.current({ x, y });
-          setDragRectRef.current({ x, y, width: 0, height: 0 });
+          if (sketchRef.current.selectionShape === 'lasso') {
+            lassoPointsRef.current = [{ x, y }];
+            setLassoRef.current([{ x, y }]);
+          } else {
+            setDragRectRef.current({ x, y, width: 0, height: 0 });
+          }
           return;
         }
-        if (tool !== 'eraser') {
-          sketchRef.current.startDrawing({ x, y, pressure });
+        if (tool === 'eraser') {
+          beginEraser(x, y, viewportHookRef.current.viewportRef.current.scale);
+          return;
         }
+        const start = isShapeType(tool) ? snapShapePoint(x, y, viewportHookRef.current.viewportRef.current.scale) : { x, y };
+        // Sans capteur, l'épaisseur du tracé sera simulée depuis la vitesse
+        sketchRef.current.startDrawing(
+          { x: start.x, y: start.y, pressure: hardwarePressure ?? 0.5 },
+          hardwarePressure === null,
+          viewportHookRef.current.viewportRef.current.scale
+        );
       },
 
       onPanResponderMove: (evt) => {
+        if (evt.nativeEvent.touches.length >= 2) {
+          if (!viewportHookRef.current.isPinching()) beginPinch(evt);
+          const [a, b] = getTouchPoints(evt, canvasLayoutRef.current);
+          viewportHookRef.current.updatePinch(a, b);
+          return;
+        }
+        if (isPinchGestureRef.current) return;
+
         const { pageX, pageY, force } = evt.nativeEvent;
         const layout = canvasLayoutRef.current;
-        const x = pageX - layout.x;
-        const y = pageY - layout.y;
-        const pressure = (Platform.OS === 'android' && force > 0) ? force : 0.5;
+        const vp = viewportHookRef.current.viewportRef.current;
+        const { x, y } = screenToDocument(pageX - layout.x, pageY - layout.y, vp);
+        const pressure = getHardwarePressure(force) ?? 0.5;
         const tool = sketchRef.current.currentTool;
 
         if (tool === 'eraser') {
-          const nearId = findNearestStrokeId(x, y, sketchRef.current.strokes, 20);
-          if (nearId) sketchRef.current.removeStroke(nearId);
+          if (isErasingRef.current) eraseTo(x, y, vp.scale);
+          return;
+        }
+        const tg = transformGestureRef.current;
+        if (tool === 'select' && tg) {
+          if (!tg.moved && Math.hypot(x - tg.start.x, y - tg.start.y) * vp.scale >= DRAG_THRESHOLD) {
+            tg.moved = true;
+          }
+          if (tg.moved) {
+            const current = tg.handle === 'move' ? snapMove(tg, x, y, vp.scale) : { x, y };
+            sketchRef.current.updateTransform(getHandleTransform(tg.handle, tg.handles, tg.start, current));
+          }
+          return;
+        }
+        const lassoPoints = lassoPointsRef.current;
+        if (tool === 'select' && lassoPoints) {
+          // Un point tous les LASSO_STEP pixels écran suffit au contour
+          const last = lassoPoints[lassoPoints.length - 1];
+          if (Math.hypot(x - last.x, y - last.y) * vp.scale >= LASSO_STEP) {
+            lassoPointsRef.current = [...lassoPoints, { x, y }];
+            setLassoRef.current(lassoPointsRef.current);
+          }
           return;
         }
         if (tool === 'select' && dragStartRef.current) {
@@ -124,60 +413,97 @@ export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStr
           });
           return;
         }
-        sketchRef.current.continueDrawing({ x, y, pressure });
+        const end = isShapeType(tool) ? snapShapePoint(x, y, vp.scale) : { x, y };
+        sketchRef.current.continueDrawing({ x: end.x, y: end.y, pressure });
       },
 
       onPanResponderRelease: (evt) => {
+        if (isPinchGestureRef.current) {
+          isPinchGestureRef.current = false;
+          viewportHookRef.current.endPinch();
+          return;
+        }
+        setGuidesRef.current(NO_GUIDES);
         const { pageX, pageY } = evt.nativeEvent;
         const layout = canvasLayoutRef.current;
-        const x = pageX - layout.x;
-        const y = pageY - layout.y;
+        const vp = viewportHookRef.current.viewportRef.current;
+        const { x, y } = screenToDocument(pageX - layout.x, pageY - layout.y, vp);
         const tool = sketchRef.current.currentTool;
 
+        if (tool === 'eraser') {
+          endEraser();
+          return;
+        }
+        const tg = transformGestureRef.current;
+        if (tool === 'select' && tg) {
+          transformGestureRef.current = null;
+          if (tg.moved) {
+            sketchRef.current.endTransform();
+          } else {
+            // Simple tap sur la sélection : même comportement qu'un tap ailleurs
+            sketchRef.current.cancelTransform();
+            toggleNearestStroke(x, y, vp.scale);
+          }
+          return;
+        }
         if (tool === 'select' && dragStartRef.current) {
           const ds = dragStartRef.current;
-          const dist = Math.sqrt((x - ds.x) ** 2 + (y - ds.y) ** 2);
-          if (dist < DRAG_THRESHOLD) {
-            const nearId = findNearestStrokeId(x, y, sketchRef.current.strokes, 30);
-            if (nearId) sketchRef.current.toggleSelection(nearId);
+          const dist = Math.sqrt((x - ds.x) ** 2 + (y - ds.y) ** 2) * vp.scale;
+          const lassoPoints = lassoPointsRef.current;
+          if (lassoPoints ? isTapLasso(lassoPoints, vp.scale) : dist < DRAG_THRESHOLD) {
+            toggleNearestStroke(x, y, vp.scale);
+          } else if (lassoPoints) {
+            sketchRef.current.selectByLasso([...lassoPoints, { x, y }]);
           } else {
             sketchRef.current.selectByRect({ x1: ds.x, y1: ds.y, x2: x, y2: y });
           }
-          dragStartRef.current = null;
-          setDragStartRef.current(null);
-          setDragRectRef.current(null);
+          cancelSelectionDrag();
+          return;
+        }
+        if (tool === 'text') {
+          openTextEditor(x, y);
           return;
         }
         sketchRef.current.endDrawing();
       },
 
       onPanResponderTerminate: () => {
-        dragStartRef.current = null;
-        setDragStartRef.current(null);
-        setDragRectRef.current(null);
+        isPinchGestureRef.current = false;
+        viewportHookRef.current.endPinch();
+        cancelSelectionDrag();
+        endEraser();
+        setGuidesRef.current(NO_GUIDES);
+        const tg = transformGestureRef.current;
+        if (tg) {
+          transformGestureRef.current = null;
+          if (tg.moved) sketchRef.current.endTransform();
+          else sketchRef.current.cancelTransform();
+        }
         sketchRef.current.endDrawing();
       },
     })
   ).current;
 
-  const handleExport = useCallback(async () => {
-    const svgContent = generateSvgContent(sketch.strokes, canvasLayout.width, canvasLayout.height);
-    const fileName = `${name.replace(/[^a-z0-9]/gi, '_')}_${Date.now()}.svg`;
-    const filePath = `${FileSystem.cacheDirectory}${fileName}`;
-    await FileSystem.writeAsStringAsync(filePath, svgContent, { encoding: FileSystem.EncodingType.UTF8 });
-    const canShare = await Sharing.isAvailableAsync();
-    if (canShare) {
-      await Sharing.shareAsync(filePath, { mimeType: 'image/svg+xml', dialogTitle: 'Exporter SVG' });
-    } else {
-      Alert.alert('Export', `Fichier SVG : ${filePath}`);
-    }
-  }, [sketch.strokes, canvasLayout, name]);
+  const handleExport = useCallback(
+    async (options: ExportOptions) => {
+      await exporter.exportDrawing(sketch.layers, canvasLayout.width, canvasLayout.height, name, options, grid);
+      setShowExport(false);
+    },
+    [exporter.exportDrawing, sketch.layers, canvasLayout, name, grid]
+  );
 
   const handleSave = useCallback(async () => {
     if (isSaving) return;
     setIsSaving(true);
     try {
-      const savedId = await storage.saveDrawing(sketch.strokes, canvasLayout.width, canvasLayout.height, name, currentDrawingId);
+      const savedId = await storage.saveDrawing(
+        sketch.layers,
+        canvasLayout.width,
+        canvasLayout.height,
+        name,
+        currentDrawingId,
+        grid
+      );
       setCurrentDrawingId(savedId);
       sketch.markClean();
       Alert.alert('Sauvegardé ✓', `"${name}" sauvegardé.`);
@@ -186,7 +512,16 @@ export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStr
     } finally {
       setIsSaving(false);
     }
-  }, [isSaving, sketch, storage, canvasLayout, name, currentDrawingId]);
+  }, [isSaving, sketch, storage, canvasLayout, name, currentDrawingId, grid]);
+
+  /** Les réglages de grille font partie du dessin : les modifier le rend non sauvegardé */
+  const handleGridChange = useCallback(
+    (patch: Partial<GridSettings>) => {
+      setGrid(prev => ({ ...prev, ...patch }));
+      sketch.markDirty();
+    },
+    [sketch.markDirty]
+  );
 
   const handleClear = useCallback(() => {
     Alert.alert('Effacer tout', 'Supprimer tous les tracés ?', [
@@ -195,6 +530,33 @@ export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStr
     ]);
   }, [sketch.clear]);
 
+  const handleCopy = useCallback(() => {
+    const selected = sketch.strokes.filter(s => sketch.selection.includes(s.id));
+    clipboard.copy(selected, canvasLayout.width, canvasLayout.height);
+  }, [sketch.strokes, sketch.selection, clipboard.copy, canvasLayout]);
+
+  const handleCut = useCallback(() => {
+    handleCopy();
+    sketch.deleteSelected();
+  }, [handleCopy, sketch.deleteSelected]);
+
+  const handlePaste = useCallback(() => {
+    sketch.pasteStrokes(clipboard.strokes);
+  }, [sketch.pasteStrokes, clipboard.strokes]);
+
+  const handleTextSubmit = useCallback(
+    (content: string, fontSize: number) => {
+      if (textEditor?.mode === 'create') sketch.addText(textEditor.x, textEditor.y, content, fontSize);
+      else if (textEditor?.mode === 'edit') sketch.updateText(textEditor.id, content, fontSize);
+      setTextEditor(null);
+    },
+    [textEditor, sketch.addText, sketch.updateText]
+  );
+
+  const handleFitToContent = useCallback(() => {
+    viewport.fitToContent(flattenLayers(sketch.layers, true), canvasLayout.width, canvasLayout.height);
+  }, [viewport.fitToContent, sketch.layers, canvasLayout]);
+
   const handleBack = useCallback(() => {
     if (sketch.isDirty) {
       Alert.alert('Modifications non sauvegardées', 'Sauvegarder avant de quitter ?', [
@@ -223,10 +585,19 @@ export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStr
           <TouchableOpacity style={styles.topBarBtn} onPress={sketch.redo} disabled={!sketch.canRedo}>
             <Ionicons name="arrow-redo" size={18} color={sketch.canRedo ? '#A0AEC0' : '#3A4055'} />
           </TouchableOpacity>
+          <TouchableOpacity style={styles.topBarBtn} onPress={() => setShowGrid(true)}>
+            <Ionicons name="grid-outline" size={18} color={grid.type !== 'none' ? '#FF8C00' : '#A0AEC0'} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.topBarBtn} onPress={() => setShowLayers(v => !v)}>
+            <Ionicons name="layers-outline" size={18} color={showLayers ? '#FF8C00' : '#A0AEC0'} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.topBarBtn} onPress={handlePaste} disabled={!clipboard.hasContent}>
+            <Ionicons name="clipboard-outline" size={18} color={clipboard.hasContent ? '#A0AEC0' : '#3A4055'} />
+          </TouchableOpacity>
           <TouchableOpacity style={styles.topBarBtn} onPress={handleClear}>
             <Ionicons name="trash-outline" size={18} color="#FF3B30" />
           </TouchableOpacity>
-          <TouchableOpacity style={styles.topBarBtn} onPress={handleExport}>
+          <TouchableOpacity style={styles.topBarBtn} onPress={() => setShowExport(true)}>
             <Ionicons name="share-outline" size={18} color="#A0AEC0" />
           </TouchableOpacity>
           <TouchableOpacity style={[styles.saveBtn, isSaving && styles.saveBtnDisabled]} onPress={handleSave} disabled={isSaving}>
@@ -243,25 +614,99 @@ export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStr
         }}
         {...panResponder.panHandlers}
       >
-        <SkiaCanvas
-          strokes={sketch.strokes}
-          currentStroke={sketch.currentStroke}
-          selection={sketch.selection}
-          focusedId={sketch.focusedId}
-          dragRect={dragRect}
-          width={canvasLayout.width}
-          height={canvasLayout.height}
-        />
+        <Profiler id="canvas" onRender={renderStats.onRender}>
+          <SkiaCanvas
+            layers={sketch.layers}
+            activeLayerId={sketch.activeLayer.id}
+            currentStroke={sketch.currentStroke}
+            selection={sketch.selection}
+            focusedId={sketch.focusedId}
+            dragRect={dragRect}
+            lasso={lasso}
+            eraserCursor={eraserCursor}
+            viewport={viewport.viewport}
+            showTransformHandles={sketch.currentTool === 'select' && !dragRect && !lasso}
+            width={canvasLayout.width}
+            height={canvasLayout.height}
+            cacheStrokes={cacheStrokes}
+            grid={grid}
+            guides={guides}
+            transformBase={sketch.transformBase}
+            debug={benchmark}
+          />
+        </Profiler>
+
+        {/*
+          Benchmark : durée des rendus React du canvas pendant le dernier tracé,
+          avec ou sans cache ; l'overlay Skia (debug) affiche le temps de dessin natif
+        */}
+        {benchmark && (
+          <TouchableOpacity
+            style={styles.benchmarkBadge}
+            onPress={() => setCacheStrokes(prev => !prev)}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="speedometer-outline" size={14} color={cacheStrokes ? '#FF8C00' : '#E2E8F0'} />
+            <Text style={styles.zoomBadgeText}>
+              {`Cache ${cacheStrokes ? 'activé' : 'désactivé'} · ${sketch.strokes.length} tracés`}
+              {renderStats.stats &&
+                ` · rendu React moy. ${renderStats.stats.average.toFixed(1)} ms · max ${renderStats.stats.worst.toFixed(0)} ms`}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Contrainte des formes (équivalent de la touche Maj) */}
+        {isShapeType(sketch.currentTool) && (
+          <TouchableOpacity
+            style={[styles.constrainBadge, sketch.shapeOptions.constrain && styles.constrainBadgeActive]}
+            onPress={() => sketch.setShapeOptions({ constrain: !sketch.shapeOptions.constrain })}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="resize-outline" size={14} color={sketch.shapeOptions.constrain ? '#FF8C00' : '#E2E8F0'} />
+            <Text style={styles.zoomBadgeText}>Maj</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Niveau de zoom + recadrage sur le contenu */}
+        <TouchableOpacity style={styles.zoomBadge} onPress={handleFitToContent} activeOpacity={0.8}>
+          <Ionicons name="scan-outline" size={14} color="#E2E8F0" />
+          <Text style={styles.zoomBadgeText}>{Math.round(viewport.viewport.scale * 100)}%</Text>
+        </TouchableOpacity>
       </View>
 
+      {showLayers && (
+        <LayerPanel
+          layers={sketch.layers}
+          activeLayerId={sketch.activeLayer.id}
+          onSelectLayer={sketch.setActiveLayerId}
+          onAddLayer={sketch.addLayer}
+          onRemoveLayer={sketch.removeLayer}
+          onUpdateLayer={sketch.updateLayer}
+          onMoveLayer={sketch.moveLayer}
+          onClose={() => setShowLayers(false)}
+        />
+      )}
+
       <SelectionPanel
         strokes={sketch.strokes}
         selection={sketch.selection}
         focusedId={sketch.focusedId}
         onToggleFocus={sketch.toggleFocused}
-        onRemoveFromSelection={sketch.toggleSelection}
+        onRemoveFromSelection={sketch.removeFromSelection}
+        groupPath={sketch.groupPath}
+        onGroup={sketch.groupSelected}
+        onUngroup={sketch.ungroupSelected}
+        onEnterGroup={sketch.enterGroup}
+        onExitGroup={sketch.exitGroup}
+        onAlign={sketch.alignSelected}
+        onDistribute={sketch.distributeSelected}
         onDeleteSelected={sketch.deleteSelected}
+        onCopy={handleCopy}
+        onCut={handleCut}
+        onDuplicate={sketch.duplicateSelected}
         onClearSelection={sketch.clearSelection}
+        onRestyle={sketch.restyleSelected}
+        onReorder={sketch.reorderSelected}
         canvasWidth={canvasLayout.width}
         canvasHeight={canvasLayout.height}
       />
@@ -273,6 +718,42 @@ export function SketchScreen({ drawingId, drawingName = 'Sans titre', initialStr
         onToolChange={sketch.setCurrentTool}
         onColorChange={sketch.setCurrentColor}
         onWidthChange={sketch.setCurrentWidth}
+        eraserMode={sketch.eraserMode}
+        onEraserModeChange={sketch.setEraserMode}
+        shapeOptions={sketch.shapeOptions}
+        onShapeOptionsChange={sketch.setShapeOptions}
+        nib={sketch.nib}
+        onNibChange={sketch.setNib}
+        stabilizer={sketch.stabilizer}
+        onStabilizerChange={sketch.setStabilizer}
+        markerMode={sketch.markerMode}
+        onMarkerModeChange={sketch.setMarkerMode}
+        selectionMatch={sketch.selectionMatch}
+        onSelectionMatchChange={sketch.setSelectionMatch}
+        selectionShape={sketch.selectionShape}
+        onSelectionShapeChange={sketch.setSelectionShape}
+        selectionCombine={sketch.selectionCombine}
+        onSelectionCombineChange={sketch.setSelectionCombine}
+      />
+
+      <ExportSheet
+        visible={showExport}
+        isExporting={exporter.isExporting}
+        hasGrid={grid.type !== 'none'}
+        onExport={handleExport}
+        onClose={() => setShowExport(false)}
+      />
+
+      <GridSheet visible={showGrid} grid={grid} onChange={handleGridChange} onClose={() => setShowGrid(false)} />
+
+      <TextEditModal
+        visible={textEditor !== null}
+        initialContent={textEditor?.mode === 'edit' ? textEditor.content : ''}
+        initialFontSize={textEditor?.mode === 'edit' ? textEditor.fontSize : sketch.currentFontSize}
+        color={textEditor?.mode === 'edit' ? textEditor.color : sketch.currentColor}
+        isNew={textEditor?.mode !== 'edit'}
+        onSubmit={handleTextSubmit}
+        onCancel={() => setTextEditor(null)}
       />
     </SafeAreaView>
   );
@@ -292,4 +773,22 @@ const styles = StyleSheet.create({
   saveBtnDisabled: { opacity: 0.5 },
   saveBtnText: { color: '#FFF', fontSize: 12, fontWeight: '700' },
   canvasArea: { flex: 1, backgroundColor: '#FFFFFF' },
+  zoomBadge: {
+    position: 'absolute', right: 10, bottom: 10,
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    backgroundColor: '#1A2035CC', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 12,
+  },
+  constrainBadge: {
+    position: 'absolute', left: 10, bottom: 10,
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    backgroundColor: '#1A2035CC', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 12,
+    borderWidth: 1, borderColor: 'transparent',
+  },
+  constrainBadgeActive: { borderColor: '#FF8C00' },
+  benchmarkBadge: {
+    position: 'absolute', left: 10, top: 10,
+    flexDirection: 'row', alignItems: 'center', gap: 4,
+    backgroundColor: '#1A2035CC', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 12,
+  },
+  zoomBadgeText: { color: '#E2E8F0', fontSize: 11, fontWeight: '600' },
 });
@@ -1,4 +1,9 @@
-export type BrushType = 'pen' | 'marker' | 'calligraphy' | 'eraser' | 'select';
+export type ShapeType = 'line' | 'rectangle' | 'ellipse' | 'arrow' | 'polygon';
+
+export type BrushType = 'pen' | 'marker' | 'calligraphy' | ShapeType | 'text' | 'eraser' | 'select';
+
+/** Gomme : suppression du tracé entier, ou seulement de la partie sous le cercle */
+export type EraserMode = 'stroke' | 'partial';
 
 export interface Point {
   x: number;
@@ -13,8 +18,96 @@ export interface Stroke {
   strokeWidth: number;
   brushType: BrushType;
   pathData: string;
+  /** Formes : contour fermé (rectangle, ellipse, polygone) */
+  closed?: boolean;
+  /** Formes fermées : remplissage avec la couleur du tracé */
+  filled?: boolean;
+  /** Annotations texte (brushType 'text') : les points sont les 4 coins du cadre */
+  text?: TextData;
+  /** Pas de capteur de pression au tracé : l'épaisseur est simulée depuis la vitesse */
+  simulatePressure?: boolean;
+  /**
+   * Points déjà lissés avec leur pression finale (tracé simplifié) : le rendu
+   * ne relisse pas et ne resimule pas la pression
+   */
+  streamlined?: boolean;
+  /** Calligraphie : plume utilisée pour le tracé (absente sur les anciens tracés) */
+  nib?: NibSettings;
+  /** Marker : mode de superposition (surligneur si absent) */
+  markerMode?: MarkerMode;
+  /** Opacité du tracé, 0..1 (1 si absente) */
+  opacity?: number;
+  /** Groupes contenant le tracé, du plus englobant au plus imbriqué */
+  groupIds?: string[];
+}
+
+/** Déplacement de la sélection dans l'ordre d'empilement de son calque */
+export type ZOrderAction = 'front' | 'forward' | 'backward' | 'back';
+
+/** Alignement de la sélection sur un bord ou un centre de sa boîte englobante */
+export type AlignAction = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/** Répartition de la sélection à espacement égal */
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+/** Style modifiable sur tous les tracés d'une sélection à la fois */
+export type StrokeStylePatch = Partial<Pick<Stroke, 'color' | 'strokeWidth' | 'opacity' | 'brushType'>>;
+
+/**
+ * 'highlight' : opacité uniforme dans un tracé, seuls des tracés distincts se cumulent.
+ * 'buildup' : l'encre s'accumule aussi là où un même tracé se recroise.
+ */
+export type MarkerMode = 'highlight' | 'buildup';
+
+/**
+ * Plume biseautée : rectangle de longueur strokeWidth et d'épaisseur
+ * strokeWidth × aspect, incliné d'un angle fixe. L'épaisseur du trait dépend
+ * de la direction du mouvement par rapport à cet angle (pleins et déliés).
+ */
+export interface NibSettings {
+  /** Inclinaison de la plume, en radians */
+  angle: number;
+  /** Épaisseur / longueur de la plume (0..1] */
+  aspect: number;
+}
+
+/**
+ * Stabilisateur des tracés à main levée :
+ * - 'string' : pinceau paresseux, tiré par une corde tendue depuis le doigt
+ * - 'average' : moyenne glissante des derniers points bruts
+ */
+export type StabilizerMode = 'none' | 'string' | 'average';
+
+export interface StabilizerSettings {
+  mode: StabilizerMode;
+  /** Force du lissage, 0..1 : longueur de la corde ou taille de la fenêtre */
+  strength: number;
 }
 
+export interface TextData {
+  content: string;
+  fontSize: number;
+  /** Rotation en radians autour du coin haut-gauche (points[0]) */
+  rotation: number;
+}
+
+/** Options de tracé des formes */
+export interface ShapeOptions {
+  filled: boolean;
+  /** Contrainte type "Maj" : carré, cercle, angles multiples de 45° */
+  constrain: boolean;
+  polygonSides: number;
+}
+
+/** Sélection par zone : tracés qui la touchent, ou seulement ceux qu'elle contient entièrement */
+export type SelectionMatchMode = 'touch' | 'contain';
+
+/** Forme tracée par l'outil sélection pour une sélection par zone */
+export type SelectionShape = 'rect' | 'lasso';
+
+/** Effet d'une sélection par zone sur la sélection courante */
+export type SelectionCombine = 'replace' | 'add' | 'subtract';
+
 export interface SelectionRect {
   x1: number;
   y1: number;
@@ -29,13 +122,115 @@ export interface BoundingBox {
   maxY: number;
 }
 
-export interface Drawing {
+/**
+ * Matrice affine 2D : (x, y) → (a·x + c·y + e, b·x + d·y + f).
+ */
+export interface Matrix2D {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+/** Poignée de transformation de la sélection */
+export type TransformHandle = 'move' | 'rotate' | 'nw' | 'ne' | 'se' | 'sw';
+
+/**
+ * Transformation écran ← document : écran = document * scale + translate.
+ */
+export interface Viewport {
+  translateX: number;
+  translateY: number;
+  scale: number;
+}
+
+/** Quadrillage de fond : carré, points ou isométrique (triangles équilatéraux) */
+export type GridType = 'none' | 'square' | 'dot' | 'isometric';
+
+/** Réglages de grille et d'aimantation, sauvegardés avec chaque dessin */
+export interface GridSettings {
+  type: GridType;
+  /** Pas de la grille, en unités document */
+  size: number;
+  /** Aimante les formes et les déplacements sur la grille (sans effet si type = 'none') */
+  snapToGrid: boolean;
+  /** Aimante sur les bords et centres des bounding boxes des autres tracés */
+  snapToStrokes: boolean;
+  showRulers: boolean;
+}
+
+/** Guide d'aimantation : droite verticale (axe x) ou horizontale (axe y) en coordonnées document */
+export interface SnapGuide {
+  axis: 'x' | 'y';
+  value: number;
+}
+
+export interface Layer {
   id: string;
   name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+  /** Tracés dans l'ordre de rendu (le dernier est au-dessus) */
   strokes: Stroke[];
+}
+
+/** Propriétés d'un calque hors tracés */
+export type LayerProps = Pick<Layer, 'name' | 'visible' | 'locked' | 'opacity'>;
+
+/**
+ * Opération d'historique réversible. Chaque opération porte de quoi calculer
+ * son inverse : on ne stocke que les tracés touchés, jamais l'état complet.
+ */
+export type HistoryOp =
+  | { type: 'add'; layerId: string; index: number; stroke: Stroke }
+  | { type: 'remove'; layerId: string; index: number; stroke: Stroke }
+  | { type: 'transform'; layerId: string; before: Stroke; after: Stroke }
+  | { type: 'restyle'; layerId: string; before: Stroke; after: Stroke }
+  | { type: 'addLayer'; index: number; layer: Layer }
+  | { type: 'removeLayer'; index: number; layer: Layer }
+  | { type: 'updateLayer'; layerId: string; before: LayerProps; after: LayerProps }
+  | { type: 'moveLayer'; from: number; to: number };
+
+/** Une étape d'undo : plusieurs opérations appliquées (et annulées) ensemble */
+export type HistoryEntry = HistoryOp[];
+
+export interface Drawing {
+  id: string;
+  name: string;
+  /** Calques dans l'ordre de rendu (le premier est tout en bas) */
+  layers: Layer[];
+  /** Ancien format (tableau unique) : converti en un seul calque au chargement */
+  strokes?: Stroke[];
   canvasWidth: number;
   canvasHeight: number;
+  /** Absent sur les dessins antérieurs à la grille */
+  grid?: GridSettings;
   thumbnailSvg: string;
   createdAt: string;
   updatedAt: string;
 }
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Facteur de résolution du PNG */
+  scale: 1 | 2 | 4;
+  /** Fond du PNG (SVG et PDF ont toujours un fond blanc) */
+  background: 'white' | 'transparent';
+  /** Recadre sur la bounding box du contenu au lieu de la taille du canvas */
+  cropToContent: boolean;
+  /** Dessine la grille du dessin sous les tracés (jamais par défaut) */
+  includeGrid: boolean;
+}
+
+/** Zone exportée, en coordonnées document */
+export interface ExportBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
@@ -0,0 +1,15 @@
+import { getShapePoints } from '../shapeUtils';
+
+describe('polygone contraint', () => {
+  const start = { x: 100, y: 100, pressure: 0.5 };
+  const end = { x: 180, y: 130, pressure: 0.5 };
+
+  it.each([3, 4, 5, 6, 7, 8])('repose sur un côté horizontal (%i côtés)', sides => {
+    const points = getShapePoints('polygon', start, end, 2, { filled: false, constrain: true, polygonSides: sides });
+    const bottom = Math.max(...points.map(p => p.y));
+    const onBottom = points.filter(p => Math.abs(p.y - bottom) < 1e-6);
+    // Un côté entier en bas, pas une pointe
+    expect(onBottom.length).toBeGreaterThanOrEqual(2);
+    expect(Math.max(...onBottom.map(p => p.x)) - Math.min(...onBottom.map(p => p.x))).toBeGreaterThan(1);
+  });
+});
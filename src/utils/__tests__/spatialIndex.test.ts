@@ -0,0 +1,299 @@
+import { BoundingBox, HistoryEntry, Layer, Point, Stroke } from '../../types';
+import { generateBenchmarkLayers } from '../benchmarkUtils';
+import {
+  createSpatialIndex,
+  eraseCircleFromStroke,
+  getBoxAround,
+  getStrokeBoundingBox,
+  getStrokesInLasso,
+  getStrokesInRect,
+  getSvgPathFromPoints,
+  querySpatialIndex,
+  SpatialIndex,
+  syncSpatialIndex,
+  transformStroke,
+  translationMatrix,
+} from '../drawingUtils';
+import { applyEntry, invertEntry } from '../history';
+import { createLayer } from '../layerUtils';
+
+const point = (x: number, y: number): Point => ({ x, y, pressure: 0.5 });
+
+function makeStroke(id: string, coords: [number, number][], extra: Partial<Stroke> = {}): Stroke {
+  const points = coords.map(([x, y]) => point(x, y));
+  return { id, points, color: '#000000', strokeWidth: 2, brushType: 'pen', pathData: getSvgPathFromPoints(points), ...extra };
+}
+
+const buildIndex = (layers: Layer[]) => {
+  const index = createSpatialIndex();
+  syncSpatialIndex(index, layers);
+  return index;
+};
+
+/** État comparable d'un index : entrées, contenu des cellules, tracés hors grille */
+function describeIndex(index: SpatialIndex) {
+  return {
+    entries: [...index.entries]
+      .map(([id, e]) => ({ id, layerId: e.layerId, stroke: e.stroke, cells: [...e.cells].sort() }))
+      .sort((a, b) => a.id.localeCompare(b.id)),
+    cells: [...index.cells]
+      .map(([key, ids]) => [key, [...ids].sort()] as const)
+      .sort((a, b) => a[0].localeCompare(b[0])),
+    oversized: [...index.oversized].sort(),
+    layers: [...index.layerStrokes.keys()].sort(),
+  };
+}
+
+/** Un index mis à jour pas à pas doit être identique à un index reconstruit */
+function expectInSync(index: SpatialIndex, layers: Layer[]) {
+  expect(describeIndex(index)).toEqual(describeIndex(buildIndex(layers)));
+}
+
+const ids = (entries: { stroke: Stroke }[]) => entries.map(e => e.stroke.id).sort();
+
+describe('syncSpatialIndex', () => {
+  let index: SpatialIndex;
+  let layers: Layer[];
+  const a = makeStroke('a', [[10, 10], [60, 40]]);
+  const b = makeStroke('b', [[300, 300], [420, 310]]);
+  const c = makeStroke('c', [[900, 50], [950, 90]]);
+
+  /** Applique une étape comme le hook : calques suivants puis resynchronisation */
+  const step = (entry: HistoryEntry) => {
+    layers = applyEntry(layers, entry);
+    syncSpatialIndex(index, layers);
+  };
+
+  beforeEach(() => {
+    layers = [
+      { ...createLayer('Calque 1', [a, b]), id: 'L1' },
+      { ...createLayer('Calque 2', [c]), id: 'L2' },
+    ];
+    index = buildIndex(layers);
+  });
+
+  it('indexe un tracé ajouté', () => {
+    const d = makeStroke('d', [[500, 500], [520, 530]]);
+    step([{ type: 'add', layerId: 'L2', index: 1, stroke: d }]);
+    expectInSync(index, layers);
+    expect(ids(querySpatialIndex(index, getBoxAround(510, 510, 5)))).toEqual(['d']);
+  });
+
+  it('désindexe un tracé supprimé', () => {
+    step([{ type: 'remove', layerId: 'L1', index: 1, stroke: b }]);
+    expectInSync(index, layers);
+    expect(querySpatialIndex(index, getBoxAround(350, 305, 10))).toEqual([]);
+  });
+
+  it('ré-indexe un tracé transformé à sa nouvelle position', () => {
+    const moved = transformStroke(a, translationMatrix(1000, 1000));
+    step([{ type: 'transform', layerId: 'L1', before: a, after: moved }]);
+    expectInSync(index, layers);
+    expect(querySpatialIndex(index, getBoxAround(30, 20, 5))).toEqual([]);
+    expect(querySpatialIndex(index, getBoxAround(1030, 1020, 5)).map(e => e.stroke)).toEqual([moved]);
+  });
+
+  it('suit les undo et redo', () => {
+    const d = makeStroke('d', [[500, 500], [520, 530]]);
+    const moved = transformStroke(c, translationMatrix(-800, 300));
+    const entry: HistoryEntry = [
+      { type: 'add', layerId: 'L1', index: 2, stroke: d },
+      { type: 'remove', layerId: 'L1', index: 0, stroke: a },
+      { type: 'transform', layerId: 'L2', before: c, after: moved },
+    ];
+    const initial = describeIndex(index);
+    step(entry);
+    expectInSync(index, layers);
+    step(invertEntry(entry));
+    expectInSync(index, layers);
+    expect(describeIndex(index)).toEqual(initial);
+    step(entry);
+    expectInSync(index, layers);
+  });
+
+  it('désindexe les tracés d’un calque supprimé, et les rétablit à l’undo', () => {
+    const entry: HistoryEntry = [{ type: 'removeLayer', index: 1, layer: layers[1] }];
+    step(entry);
+    expectInSync(index, layers);
+    expect(querySpatialIndex(index, getBoxAround(920, 70, 10))).toEqual([]);
+    step(invertEntry(entry));
+    expectInSync(index, layers);
+    expect(querySpatialIndex(index, getBoxAround(920, 70, 10)).map(e => e.layerId)).toEqual(['L2']);
+  });
+
+  it('suit un tracé passé d’un calque à l’autre', () => {
+    step([
+      { type: 'remove', layerId: 'L1', index: 0, stroke: a },
+      { type: 'add', layerId: 'L2', index: 0, stroke: a },
+    ]);
+    expectInSync(index, layers);
+    expect(querySpatialIndex(index, getBoxAround(30, 20, 5)).map(e => e.layerId)).toEqual(['L2']);
+  });
+
+  it('range à part les tracés trop étendus et les trouve partout', () => {
+    const huge = makeStroke('huge', [[0, 0], [5000, 5000]]);
+    step([{ type: 'add', layerId: 'L1', index: 0, stroke: huge }]);
+    expectInSync(index, layers);
+    expect(index.oversized.has('huge')).toBe(true);
+    expect(ids(querySpatialIndex(index, getBoxAround(2500, 2500, 1)))).toEqual(['huge']);
+  });
+
+  it('filtre par calque', () => {
+    const box = { minX: 0, minY: 0, maxX: 1000, maxY: 1000 };
+    expect(ids(querySpatialIndex(index, box, new Set(['L1'])))).toEqual(['a', 'b']);
+    expect(ids(querySpatialIndex(index, box, new Set(['L2'])))).toEqual(['c']);
+  });
+});
+
+describe('requêtes de sélection', () => {
+  // Diagonale, boucle fermée remplie et segment horizontal
+  const diagonal = makeStroke('diagonal', [[0, 0], [100, 100]]);
+  const square = makeStroke('square', [[200, 0], [300, 0], [300, 100], [200, 100]], {
+    brushType: 'rectangle',
+    closed: true,
+    filled: true,
+  });
+  const line = makeStroke('line', [[0, 200], [300, 200]]);
+  const index = buildIndex([{ ...createLayer('Calque 1', [diagonal, square, line]), id: 'L1' }]);
+
+  it('rectangle en mode touch : l’encre doit toucher, pas la bounding box', () => {
+    // Coin de la bounding box de la diagonale, loin de son encre
+    expect(getStrokesInRect(index, { x1: 70, y1: 0, x2: 100, y2: 20 }, 'touch')).toEqual([]);
+    expect(getStrokesInRect(index, { x1: 40, y1: 40, x2: 60, y2: 60 }, 'touch')).toEqual(['diagonal']);
+    // Rectangle à l'intérieur d'une forme pleine
+    expect(getStrokesInRect(index, { x1: 240, y1: 40, x2: 260, y2: 60 }, 'touch')).toEqual(['square']);
+  });
+
+  it('rectangle en mode contain', () => {
+    expect(getStrokesInRect(index, { x1: -10, y1: -10, x2: 150, y2: 150 }, 'contain')).toEqual(['diagonal']);
+    expect(getStrokesInRect(index, { x1: -10, y1: -10, x2: 310, y2: 150 }, 'contain').sort()).toEqual([
+      'diagonal',
+      'square',
+    ]);
+    expect(getStrokesInRect(index, { x1: -10, y1: -10, x2: 310, y2: 210 }, 'contain').sort()).toEqual([
+      'diagonal',
+      'line',
+      'square',
+    ]);
+  });
+
+  it('rectangle : limité aux calques demandés', () => {
+    const other = { ...createLayer('Calque 2', [makeStroke('other', [[40, 40], [60, 60]])]), id: 'L2' };
+    const layered = buildIndex([{ ...createLayer('Calque 1', [diagonal]), id: 'L1' }, other]);
+    const rect = { x1: 40, y1: 40, x2: 60, y2: 60 };
+    expect(getStrokesInRect(layered, rect, 'touch').sort()).toEqual(['diagonal', 'other']);
+    expect(getStrokesInRect(layered, rect, 'touch', new Set(['L2']))).toEqual(['other']);
+  });
+
+  it('lasso', () => {
+    const triangle = [
+      { x: -10, y: -10 },
+      { x: 150, y: -10 },
+      { x: -10, y: 150 },
+    ];
+    expect(getStrokesInLasso(index, triangle, 'touch')).toEqual(['diagonal']);
+    expect(getStrokesInLasso(index, triangle, 'contain')).toEqual([]);
+    const around = [
+      { x: -10, y: -10 },
+      { x: 150, y: -10 },
+      { x: 150, y: 150 },
+      { x: -10, y: 150 },
+    ];
+    expect(getStrokesInLasso(index, around, 'contain')).toEqual(['diagonal']);
+    // Lasso tracé à l'intérieur d'une forme pleine
+    const inside = [
+      { x: 240, y: 40 },
+      { x: 260, y: 40 },
+      { x: 250, y: 60 },
+    ];
+    expect(getStrokesInLasso(index, inside, 'touch')).toEqual(['square']);
+    expect(getStrokesInLasso(index, around.slice(0, 2), 'touch')).toEqual([]);
+  });
+
+  it('gomme : candidats autour du cercle', () => {
+    expect(ids(querySpatialIndex(index, getBoxAround(150, 200, 10)))).toEqual(['line']);
+    expect(querySpatialIndex(index, getBoxAround(150, 100, 10))).toEqual([]);
+  });
+});
+
+/**
+ * Comparaison reproductible avec le parcours linéaire d'avant l'index, sur
+ * le dessin de benchmark (graine fixe) à 10 000 tracés : mêmes résultats,
+ * et l'index doit être au moins SPEEDUP fois plus rapide. La marge est
+ * large : l'écart mesuré est bien plus grand, mais varie selon la machine.
+ */
+const SPEEDUP = 2;
+
+describe('10 000 tracés : index spatial contre parcours linéaire', () => {
+  const WIDTH = 4000;
+  const HEIGHT = 3000;
+  const layers = generateBenchmarkLayers(WIDTH, HEIGHT, 10000);
+  const all = layers.flatMap(l => l.strokes.map(stroke => ({ stroke, layerId: l.id })));
+  const inkBounds = new Map(
+    all.map(({ stroke }) => {
+      const bb = getStrokeBoundingBox(stroke);
+      const half = stroke.strokeWidth / 2;
+      return [stroke.id, { minX: bb.minX - half, minY: bb.minY - half, maxX: bb.maxX + half, maxY: bb.maxY + half }];
+    })
+  );
+  const intersects = (a: BoundingBox, b: BoundingBox) =>
+    a.maxX >= b.minX && a.minX <= b.maxX && a.maxY >= b.minY && a.minY <= b.maxY;
+
+  // Requêtes déterministes réparties sur le dessin
+  const centers = Array.from({ length: 200 }, (_, i) => ({
+    x: ((i * 7919) % 997) * (WIDTH / 997),
+    y: ((i * 104729) % 991) * (HEIGHT / 991),
+  }));
+
+  const time = (run: () => void) => {
+    const start = performance.now();
+    run();
+    return performance.now() - start;
+  };
+
+  it('emprises : mêmes tracés qu’un parcours linéaire, plus vite', () => {
+    const index = buildIndex(layers);
+    const boxes = centers.map(({ x, y }) => ({ minX: x - 60, minY: y - 40, maxX: x + 60, maxY: y + 40 }));
+
+    const linear: string[][] = [];
+    const linearMs = time(() => {
+      for (const box of boxes) {
+        linear.push(all.filter(({ stroke }) => intersects(inkBounds.get(stroke.id)!, box)).map(e => e.stroke.id));
+      }
+    });
+    const indexed: string[][] = [];
+    const indexedMs = time(() => {
+      for (const box of boxes) indexed.push(querySpatialIndex(index, box).map(e => e.stroke.id));
+    });
+
+    expect(indexed.map(r => [...r].sort())).toEqual(linear.map(r => [...r].sort()));
+    expect(indexedMs * SPEEDUP).toBeLessThan(linearMs);
+  });
+
+  it('gomme partielle : mêmes tracés coupés qu’un parcours linéaire, plus vite', () => {
+    const index = buildIndex(layers);
+    const layer = layers[0];
+    const radius = 12;
+    // Le parcours linéaire découpe chaque tracé : moins de coups suffisent
+    const hits = centers.slice(0, 50);
+
+    const cut = (strokes: Stroke[], x: number, y: number) =>
+      strokes.filter(s => eraseCircleFromStroke(s, x, y, radius)).map(s => s.id);
+
+    const linear: string[][] = [];
+    const linearMs = time(() => {
+      for (const { x, y } of hits) linear.push(cut(layer.strokes, x, y));
+    });
+    const indexed: string[][] = [];
+    const indexedMs = time(() => {
+      for (const { x, y } of hits) {
+        const near = querySpatialIndex(index, getBoxAround(x, y, radius), new Set([layer.id]));
+        indexed.push(cut(near.map(e => e.stroke), x, y));
+      }
+    });
+
+    expect(indexed.map(r => [...r].sort())).toEqual(linear.map(r => [...r].sort()));
+    expect(linear.some(r => r.length > 0)).toBe(true);
+    expect(indexedMs * SPEEDUP).toBeLessThan(linearMs);
+  });
+});
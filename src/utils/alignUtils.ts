@@ -0,0 +1,62 @@
+import { AlignAction, BoundingBox, DistributeAxis } from '../types';
+
+/**
+ * Alignement et répartition : chaque élément (tracé ou groupe) est représenté
+ * par sa bounding box, et reçoit un déplacement { dx, dy } dans le même ordre.
+ */
+
+export interface Offset {
+  dx: number;
+  dy: number;
+}
+
+/** Aligne les boîtes sur un bord ou le centre de leur boîte englobante */
+export function getAlignOffsets(boxes: BoundingBox[], action: AlignAction): Offset[] {
+  const minX = Math.min(...boxes.map(b => b.minX));
+  const maxX = Math.max(...boxes.map(b => b.maxX));
+  const minY = Math.min(...boxes.map(b => b.minY));
+  const maxY = Math.max(...boxes.map(b => b.maxY));
+  return boxes.map(b => {
+    switch (action) {
+      case 'left':
+        return { dx: minX - b.minX, dy: 0 };
+      case 'center':
+        return { dx: (minX + maxX) / 2 - (b.minX + b.maxX) / 2, dy: 0 };
+      case 'right':
+        return { dx: maxX - b.maxX, dy: 0 };
+      case 'top':
+        return { dx: 0, dy: minY - b.minY };
+      case 'middle':
+        return { dx: 0, dy: (minY + maxY) / 2 - (b.minY + b.maxY) / 2 };
+      case 'bottom':
+        return { dx: 0, dy: maxY - b.maxY };
+    }
+  });
+}
+
+/**
+ * Espacement égal entre boîtes voisines sur un axe : les deux extrêmes ne
+ * bougent pas, les autres sont replacés dans leur ordre le long de l'axe.
+ * Sans effet à moins de trois boîtes.
+ */
+export function getDistributeOffsets(boxes: BoundingBox[], axis: DistributeAxis): Offset[] {
+  const offsets = boxes.map(() => ({ dx: 0, dy: 0 }));
+  if (boxes.length < 3) return offsets;
+  const horizontal = axis === 'horizontal';
+  const start = (b: BoundingBox) => (horizontal ? b.minX : b.minY);
+  const size = (b: BoundingBox) => (horizontal ? b.maxX - b.minX : b.maxY - b.minY);
+
+  const order = boxes.map((_, i) => i).sort((a, b) => start(boxes[a]) - start(boxes[b]));
+  const first = boxes[order[0]];
+  const last = boxes[order[order.length - 1]];
+  const span = start(last) + size(last) - start(first);
+  const gap = (span - boxes.reduce((sum, b) => sum + size(b), 0)) / (boxes.length - 1);
+
+  let cursor = start(first);
+  for (const i of order) {
+    const delta = cursor - start(boxes[i]);
+    offsets[i] = horizontal ? { dx: delta, dy: 0 } : { dx: 0, dy: delta };
+    cursor += size(boxes[i]) + gap;
+  }
+  return offsets;
+}
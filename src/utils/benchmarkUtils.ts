@@ -0,0 +1,98 @@
+import { nanoid } from 'nanoid/non-secure';
+import { BrushType, Layer, MarkerMode, Point, ShapeType, Stroke } from '../types';
+import { getStrokePathData } from './drawingUtils';
+import { createLayer } from './layerUtils';
+import { getShapePoints, isClosedShape } from './shapeUtils';
+
+/**
+ * Dessin de benchmark : beaucoup de tracés de tous les types, pour mesurer le
+ * temps de frame pendant un tracé sur un gros croquis.
+ */
+
+export const BENCHMARK_STROKE_COUNT = 600;
+
+const COLORS = ['#000000', '#E53E3E', '#3B82F6', '#38A169', '#FF8C00', '#805AD5'];
+const BRUSHES: BrushType[] = ['pen', 'pen', 'pen', 'marker', 'calligraphy'];
+const SHAPES: ShapeType[] = ['line', 'rectangle', 'ellipse', 'arrow', 'polygon'];
+
+/** Générateur pseudo-aléatoire déterministe (mulberry32) : même dessin à chaque lancement */
+function createRandom(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Trajet à main levée : marche aléatoire à direction lissée, ~3 px entre les points */
+function randomWalk(random: () => number, width: number, height: number): Point[] {
+  let x = random() * width;
+  let y = random() * height;
+  let angle = random() * Math.PI * 2;
+  const count = 40 + Math.floor(random() * 120);
+  const points: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    points.push({ x, y, pressure: 0.3 + random() * 0.5 });
+    angle += (random() - 0.5) * 0.6;
+    x = Math.min(width, Math.max(0, x + Math.cos(angle) * 3));
+    y = Math.min(height, Math.max(0, y + Math.sin(angle) * 3));
+  }
+  return points;
+}
+
+function randomStroke(random: () => number, width: number, height: number): Stroke {
+  const color = COLORS[Math.floor(random() * COLORS.length)];
+  const strokeWidth = 2 + Math.floor(random() * 10);
+  // Une forme pour cinq tracés à main levée
+  if (random() < 0.2) {
+    const brushType = SHAPES[Math.floor(random() * SHAPES.length)];
+    const start = { x: random() * width, y: random() * height, pressure: 0.5 };
+    const end = { x: start.x + (random() - 0.5) * 200, y: start.y + (random() - 0.5) * 200, pressure: 0.5 };
+    const closed = isClosedShape(brushType);
+    const points = getShapePoints(brushType, start, end, strokeWidth, {
+      filled: false,
+      constrain: false,
+      polygonSides: 6,
+    });
+    return {
+      id: nanoid(),
+      points,
+      color,
+      strokeWidth,
+      brushType,
+      pathData: getStrokePathData({ points, brushType, closed }),
+      closed,
+      filled: closed && random() < 0.3,
+    };
+  }
+  const brushType = BRUSHES[Math.floor(random() * BRUSHES.length)];
+  const points = randomWalk(random, width, height);
+  const markerMode: MarkerMode = random() < 0.5 ? 'highlight' : 'buildup';
+  return {
+    id: nanoid(),
+    points,
+    color,
+    strokeWidth: brushType === 'calligraphy' ? strokeWidth * 1.5 : strokeWidth,
+    brushType,
+    pathData: getStrokePathData({ points, brushType }),
+    ...(brushType === 'calligraphy' && { nib: { angle: Math.PI / 4, aspect: 0.15 } }),
+    ...(brushType === 'marker' && { markerMode }),
+  };
+}
+
+/**
+ * Calques du dessin de benchmark : `strokeCount` tracés répartis sur deux
+ * calques, dans une zone `width` × `height` (coordonnées document).
+ */
+export function generateBenchmarkLayers(
+  width: number,
+  height: number,
+  strokeCount = BENCHMARK_STROKE_COUNT
+): Layer[] {
+  const random = createRandom(42);
+  const strokes = Array.from({ length: strokeCount }, () => randomStroke(random, width, height));
+  const split = Math.floor(strokeCount * 0.75);
+  return [createLayer('Calque 1', strokes.slice(0, split)), createLayer('Calque 2', strokes.slice(split))];
+}
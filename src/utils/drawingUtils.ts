@@ -1,4 +1,23 @@
-import { Point, Stroke, BoundingBox, SelectionRect } from './types';
+import {
+  Point,
+  Stroke,
+  BoundingBox,
+  SelectionRect,
+  Viewport,
+  Matrix2D,
+  TransformHandle,
+  Layer,
+  ExportBounds,
+  SelectionMatchMode,
+  BrushType,
+  NibSettings,
+  StrokeStylePatch,
+  GridSettings,
+} from '../types';
+import { getPolylinePath, isShapeType } from './shapeUtils';
+import { getGridPathData, GRID_COLOR, GRID_EXPORT_DOT_SIZE, GRID_EXPORT_LINE_WIDTH } from './gridUtils';
+import { getTextSvg, syncTextWithPoints } from './textUtils';
+import { getStrokeGeometry } from './strokeGeometry';
 
 /**
  * Génère un path SVG lissé (courbes de Bézier quadratiques) depuis une liste de points.
@@ -20,6 +39,17 @@ export function getSvgPathFromPoints(points: Point[]): string {
   return d;
 }
 
+/**
+ * Path d'un tracé selon son type : ligne brisée pour les formes,
+ * cadre pour les textes, courbe lissée pour le dessin à main levée.
+ */
+export function getStrokePathData(stroke: Pick<Stroke, 'points' | 'brushType' | 'closed'>): string {
+  if (stroke.brushType === 'text') return getPolylinePath(stroke.points, true);
+  return isShapeType(stroke.brushType)
+    ? getPolylinePath(stroke.points, !!stroke.closed)
+    : getSvgPathFromPoints(stroke.points);
+}
+
 /**
  * Calcule la bounding box d'un tracé.
  */
@@ -38,88 +68,731 @@ export function getStrokeBoundingBox(stroke: Stroke): BoundingBox {
 }
 
 /**
- * Retourne les IDs des tracés dont la bounding box intersecte le rectangle de sélection.
+ * Calcule la bounding box englobant plusieurs tracés (null si aucun tracé).
  */
-export function getStrokesInRect(strokes: Stroke[], rect: SelectionRect): string[] {
-  const minX = Math.min(rect.x1, rect.x2);
-  const maxX = Math.max(rect.x1, rect.x2);
-  const minY = Math.min(rect.y1, rect.y2);
-  const maxY = Math.max(rect.y1, rect.y2);
-
-  return strokes
-    .filter(stroke => {
+export function getStrokesBoundingBox(strokes: Stroke[]): BoundingBox | null {
+  if (strokes.length === 0) return null;
+  return strokes.reduce(
+    (acc, stroke) => {
       const bb = getStrokeBoundingBox(stroke);
-      return bb.maxX >= minX && bb.minX <= maxX && bb.maxY >= minY && bb.minY <= maxY;
-    })
-    .map(s => s.id);
+      return {
+        minX: Math.min(acc.minX, bb.minX),
+        minY: Math.min(acc.minY, bb.minY),
+        maxX: Math.max(acc.maxX, bb.maxX),
+        maxY: Math.max(acc.maxY, bb.maxY),
+      };
+    },
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
 }
 
 /**
- * Génère le contenu SVG complet pour export.
+ * Test pair-impair : le point est-il à l'intérieur du polygone ?
  */
-export function generateSvgContent(strokes: Stroke[], width: number, height: number): string {
-  const renderStroke = (s: Stroke): string => {
-    const isMarker = s.brushType === 'marker';
-    if (isMarker && s.points.length > 1) {
-      const segments = s.points.slice(0, -1).map((pt, i) => {
-        const next = s.points[i + 1];
-        return `<line x1="${pt.x.toFixed(2)}" y1="${pt.y.toFixed(2)}" x2="${next.x.toFixed(2)}" y2="${next.y.toFixed(2)}" stroke="${s.color}" stroke-width="${s.strokeWidth}" stroke-linecap="round" opacity="0.5" />`;
-      });
-      return segments.join('\n    ');
+export function isPointInPolygon(x: number, y: number, polygon: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
     }
-    const opacity = isMarker ? ' opacity="0.5"' : '';
-    return `<path d="${s.pathData}" stroke="${s.color}" stroke-width="${s.strokeWidth}" fill="none" stroke-linecap="round" stroke-linejoin="round"${opacity} />`;
+  }
+  return inside;
+}
+
+/**
+ * Convertit un point écran (relatif au canvas) en coordonnées document.
+ */
+export function screenToDocument(x: number, y: number, viewport: Viewport): { x: number; y: number } {
+  return {
+    x: (x - viewport.translateX) / viewport.scale,
+    y: (y - viewport.translateY) / viewport.scale,
   };
+}
 
-  return `<?xml version="1.0" encoding="utf-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
-  <rect width="100%" height="100%" fill="#ffffff" />
-  ${strokes.map(renderStroke).join('\n  ')}
-</svg>`;
+// ─── Transformations affines ─────────────────────────────────────────────────
+
+export const IDENTITY_MATRIX: Matrix2D = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+export function translationMatrix(dx: number, dy: number): Matrix2D {
+  return { a: 1, b: 0, c: 0, d: 1, e: dx, f: dy };
+}
+
+/** Mise à l'échelle autour du point fixe (ox, oy) */
+export function scaleMatrix(sx: number, sy: number, ox: number, oy: number): Matrix2D {
+  return { a: sx, b: 0, c: 0, d: sy, e: ox - ox * sx, f: oy - oy * sy };
+}
+
+/** Rotation (radians) autour du centre (cx, cy) */
+export function rotationMatrix(angle: number, cx: number, cy: number): Matrix2D {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    a: cos,
+    b: sin,
+    c: -sin,
+    d: cos,
+    e: cx - cx * cos + cy * sin,
+    f: cy - cx * sin - cy * cos,
+  };
+}
+
+export function transformPoint(pt: Point, m: Matrix2D): Point {
+  return {
+    x: m.a * pt.x + m.c * pt.y + m.e,
+    y: m.b * pt.x + m.d * pt.y + m.f,
+    pressure: pt.pressure,
+  };
 }
 
 /**
- * Génère un SVG miniature pour les thumbnails de la galerie.
- * N'utilise que les 10 premiers tracés pour la perf.
+ * Applique une matrice à un tracé : réécrit les points et régénère le pathData.
+ * Pour un texte, position, rotation et taille sont déduites du cadre transformé ;
+ * la plume d'un tracé calligraphie tourne avec lui.
+ */
+export function transformStroke(stroke: Stroke, m: Matrix2D): Stroke {
+  const points = stroke.points.map(pt => transformPoint(pt, m));
+  const next = stroke.text ? syncTextWithPoints({ ...stroke, points }, stroke) : { ...stroke, points };
+  if (stroke.nib) next.nib = { ...stroke.nib, angle: stroke.nib.angle + Math.atan2(m.b, m.a) };
+  return { ...next, pathData: getStrokePathData(next) };
+}
+
+/** Pinceaux à main levée : un tracé peut passer de l'un à l'autre */
+export const FREEHAND_BRUSHES: BrushType[] = ['pen', 'marker', 'calligraphy'];
+
+/**
+ * Applique un changement de style et régénère le pathData. L'épaisseur ne
+ * concerne pas les textes ; le type de pinceau ne change qu'entre pinceaux à
+ * main levée, une plume (`nib`) étant ajoutée au passage en calligraphie.
  */
-export function generateThumbnailSvg(strokes: Stroke[], width: number, height: number): string {
-  if (strokes.length === 0) return '';
+export function restyleStroke(stroke: Stroke, patch: StrokeStylePatch, nib: NibSettings): Stroke {
+  const next: Stroke = { ...stroke };
+  if (patch.color !== undefined) next.color = patch.color;
+  if (patch.opacity !== undefined) next.opacity = patch.opacity;
+  if (patch.strokeWidth !== undefined && !stroke.text) next.strokeWidth = patch.strokeWidth;
+  if (patch.brushType && FREEHAND_BRUSHES.includes(stroke.brushType) && FREEHAND_BRUSHES.includes(patch.brushType)) {
+    next.brushType = patch.brushType;
+    if (patch.brushType === 'calligraphy' && !next.nib) next.nib = nib;
+  }
+  return { ...next, pathData: getStrokePathData(next) };
+}
 
-  const topStrokes = strokes.slice(0, 10);
+// ─── Poignées de sélection ───────────────────────────────────────────────────
+
+/** Taille des poignées et marges, en pixels écran */
+export const HANDLE_SIZE = 12;
+const HANDLE_HIT_RADIUS = 22;
+const SELECTION_PADDING = 8;
+const ROTATION_HANDLE_OFFSET = 28;
+
+export interface SelectionHandles {
+  box: BoundingBox;
+  corners: Record<'nw' | 'ne' | 'se' | 'sw', { x: number; y: number }>;
+  rotation: { x: number; y: number };
+}
+
+/**
+ * Position des poignées autour de la bbox de sélection, en coordonnées document.
+ * Les marges sont constantes à l'écran quel que soit le zoom.
+ */
+export function getSelectionHandles(bb: BoundingBox, scale: number): SelectionHandles {
+  const pad = SELECTION_PADDING / scale;
+  const box = { minX: bb.minX - pad, minY: bb.minY - pad, maxX: bb.maxX + pad, maxY: bb.maxY + pad };
+  return {
+    box,
+    corners: {
+      nw: { x: box.minX, y: box.minY },
+      ne: { x: box.maxX, y: box.minY },
+      se: { x: box.maxX, y: box.maxY },
+      sw: { x: box.minX, y: box.maxY },
+    },
+    rotation: { x: (box.minX + box.maxX) / 2, y: box.minY - ROTATION_HANDLE_OFFSET / scale },
+  };
+}
 
-  const renderStroke = (s: Stroke): string => {
-    const isMarker = s.brushType === 'marker';
-    if (isMarker && s.points.length > 1) {
-      const segments = s.points.slice(0, -1).map((pt, i) => {
-        const next = s.points[i + 1];
-        return `<line x1="${pt.x.toFixed(1)}" y1="${pt.y.toFixed(1)}" x2="${next.x.toFixed(1)}" y2="${next.y.toFixed(1)}" stroke="${s.color}" stroke-width="${s.strokeWidth}" stroke-linecap="round" opacity="0.5" />`;
-      });
-      return segments.join(' ');
+/**
+ * Détermine quelle poignée se trouve sous le point (coordonnées document).
+ * Retourne 'move' à l'intérieur de la bbox, null en dehors.
+ */
+export function hitTestSelectionHandles(
+  handles: SelectionHandles,
+  x: number,
+  y: number,
+  scale: number
+): TransformHandle | null {
+  const r = HANDLE_HIT_RADIUS / scale;
+  const near = (p: { x: number; y: number }) => Math.hypot(p.x - x, p.y - y) <= r;
+
+  if (near(handles.rotation)) return 'rotate';
+  for (const key of ['nw', 'ne', 'se', 'sw'] as const) {
+    if (near(handles.corners[key])) return key;
+  }
+  const { box } = handles;
+  if (x >= box.minX && x <= box.maxX && y >= box.minY && y <= box.maxY) return 'move';
+  return null;
+}
+
+/** Coin opposé, utilisé comme point fixe lors d'un redimensionnement */
+export const OPPOSITE_CORNER = { nw: 'se', ne: 'sw', se: 'nw', sw: 'ne' } as const;
+
+/**
+ * Calcule la matrice correspondant au drag d'une poignée, depuis le point de départ
+ * `start` jusqu'au point courant `current` (coordonnées document).
+ */
+export function getHandleTransform(
+  handle: TransformHandle,
+  handles: SelectionHandles,
+  start: { x: number; y: number },
+  current: { x: number; y: number }
+): Matrix2D {
+  if (handle === 'move') {
+    return translationMatrix(current.x - start.x, current.y - start.y);
+  }
+  const { box } = handles;
+  if (handle === 'rotate') {
+    const cx = (box.minX + box.maxX) / 2;
+    const cy = (box.minY + box.maxY) / 2;
+    const angle =
+      Math.atan2(current.y - cy, current.x - cx) - Math.atan2(start.y - cy, start.x - cx);
+    return rotationMatrix(angle, cx, cy);
+  }
+  // Redimensionnement : le coin opposé reste fixe
+  const anchor = handles.corners[OPPOSITE_CORNER[handle]];
+  const corner = handles.corners[handle];
+  const safeRatio = (num: number, den: number) => {
+    const r = Math.abs(den) < 1e-6 ? 1 : num / den;
+    return Math.abs(r) < 0.01 ? Math.sign(r || 1) * 0.01 : r;
+  };
+  const sx = safeRatio(corner.x - anchor.x + (current.x - start.x), corner.x - anchor.x);
+  const sy = safeRatio(corner.y - anchor.y + (current.y - start.y), corner.y - anchor.y);
+  return scaleMatrix(sx, sy, anchor.x, anchor.y);
+}
+
+// ─── Gomme partielle ─────────────────────────────────────────────────────────
+
+const lerpPoint = (a: Point, b: Point, t: number): Point => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  pressure: a.pressure + (b.pressure - a.pressure) * t,
+});
+
+/**
+ * Intervalle [tIn, tOut] ⊂ [0, 1] du segment a→b situé dans le cercle, ou null.
+ */
+function segmentCircleInterval(
+  a: Point,
+  b: Point,
+  cx: number,
+  cy: number,
+  radius: number
+): [number, number] | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const fx = a.x - cx;
+  const fy = a.y - cy;
+  const qa = dx * dx + dy * dy;
+  const qc = fx * fx + fy * fy - radius * radius;
+  if (qa < 1e-9) return qc <= 0 ? [0, 1] : null;
+  const qb = 2 * (fx * dx + fy * dy);
+  const disc = qb * qb - 4 * qa * qc;
+  if (disc <= 0) return null;
+  const sqrtDisc = Math.sqrt(disc);
+  const t1 = Math.max(0, (-qb - sqrtDisc) / (2 * qa));
+  const t2 = Math.min(1, (-qb + sqrtDisc) / (2 * qa));
+  return t1 < t2 ? [t1, t2] : null;
+}
+
+/**
+ * Retire d'un tracé la partie couverte par le cercle de gomme.
+ * Les segments sont coupés exactement au bord du cercle ; le rayon est élargi
+ * de la demi-épaisseur du tracé pour que l'encre visible disparaisse aussi.
+ * Les morceaux d'un contour fermé sont des lignes ouvertes.
+ *
+ * Retourne null si le tracé n'est pas touché, sinon les morceaux restants
+ * (tableau vide si le tracé est entièrement effacé).
+ */
+export function eraseCircleFromStroke(
+  stroke: Stroke,
+  cx: number,
+  cy: number,
+  radius: number
+): Point[][] | null {
+  const r = radius + stroke.strokeWidth / 2;
+  const bb = getStrokeBoundingBox(stroke);
+  if (bb.maxX < cx - r || bb.minX > cx + r || bb.maxY < cy - r || bb.minY > cy + r) return null;
+
+  // Contour fermé : le côté de fermeture (dernier → premier point) compte aussi
+  const pts = stroke.closed && stroke.points.length > 2 ? [...stroke.points, stroke.points[0]] : stroke.points;
+  if (pts.length === 1) {
+    return Math.hypot(pts[0].x - cx, pts[0].y - cy) <= r ? [] : null;
+  }
+
+  const runs: Point[][] = [];
+  let current: Point[] = [];
+  let touched = false;
+  const closeRun = () => {
+    if (current.length >= 2) runs.push(current);
+    current = [];
+  };
+
+  for (let i = 0; i < pts.length - 1; i++) {
+    const a = pts[i];
+    const b = pts[i + 1];
+    const hit = segmentCircleInterval(a, b, cx, cy, r);
+    if (!hit) {
+      if (current.length === 0) current.push(a);
+      current.push(b);
+      continue;
+    }
+    touched = true;
+    const [tIn, tOut] = hit;
+    if (tIn > 0) {
+      if (current.length === 0) current.push(a);
+      current.push(lerpPoint(a, b, tIn));
     }
-    return `<path d="${s.pathData}" stroke="${s.color}" stroke-width="${s.strokeWidth}" fill="none" stroke-linecap="round" stroke-linejoin="round" ${isMarker ? 'opacity="0.5"' : ''} />`;
+    closeRun();
+    if (tOut < 1) current = [lerpPoint(a, b, tOut), b];
+  }
+  closeRun();
+
+  // Contour fermé coupé : le morceau final et le morceau initial se rejoignent au point 0
+  if (touched && stroke.closed && runs.length >= 2) {
+    const first = runs[0];
+    const last = runs[runs.length - 1];
+    if (first[0] === pts[0] && last[last.length - 1] === pts[pts.length - 1]) {
+      runs.splice(runs.length - 1, 1);
+      runs[0] = [...last, ...first.slice(1)];
+    }
+  }
+
+  return touched ? runs : null;
+}
+
+// ─── Hit-testing ──────────────────────────────────────────────────────────────
+
+/** Distance du point (x, y) au segment a→b */
+function distanceToSegment(x: number, y: number, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq < 1e-9 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSq));
+  return Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy));
+}
+
+/** Ligne brisée du tracé, côté de fermeture compris pour les contours fermés et les textes */
+function getHitPolyline(stroke: Stroke): Point[] {
+  const closed = (stroke.closed || !!stroke.text) && stroke.points.length > 2;
+  return closed ? [...stroke.points, stroke.points[0]] : stroke.points;
+}
+
+/** Texte (cadre) ou forme remplie : l'intérieur fait partie du tracé */
+const isSolidStroke = (stroke: Stroke) => !!stroke.text || (!!stroke.closed && !!stroke.filled);
+
+/**
+ * Distance du point (x, y) au bord de l'encre : distance aux segments du tracé
+ * moins la demi-épaisseur, 0 sur l'encre ou à l'intérieur d'une région pleine.
+ */
+export function getStrokeDistance(stroke: Stroke, x: number, y: number): number {
+  if (stroke.points.length === 0) return Infinity;
+  if (isSolidStroke(stroke) && isPointInPolygon(x, y, stroke.points)) return 0;
+  const pts = getHitPolyline(stroke);
+  let best = Math.hypot(pts[0].x - x, pts[0].y - y);
+  for (let i = 1; i < pts.length; i++) {
+    best = Math.min(best, distanceToSegment(x, y, pts[i - 1], pts[i]));
+  }
+  return Math.max(0, best - stroke.strokeWidth / 2);
+}
+
+/** Le tracé est-il touché au point (x, y), à `tolerance` près ? */
+export function hitTestStroke(stroke: Stroke, x: number, y: number, tolerance: number): boolean {
+  return getStrokeDistance(stroke, x, y) <= tolerance;
+}
+
+/** Le segment a→b traverse-t-il la boîte ? (découpage de Liang-Barsky) */
+function segmentIntersectsBox(a: Point, b: Point, box: BoundingBox): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dx, a.x - box.minX],
+    [dx, box.maxX - a.x],
+    [-dy, a.y - box.minY],
+    [dy, box.maxY - a.y],
+  ];
+  for (const [p, q] of edges) {
+    if (Math.abs(p) < 1e-9) {
+      if (q < 0) return false;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) t0 = Math.max(t0, r);
+    else t1 = Math.min(t1, r);
+    if (t0 > t1) return false;
+  }
+  return true;
+}
+
+/**
+ * Le tracé touche-t-il la boîte ? Un segment à moins d'une demi-épaisseur
+ * (boîte élargie d'autant), ou une région pleine qui contient la boîte.
+ */
+function strokeTouchesBox(stroke: Stroke, box: BoundingBox): boolean {
+  if (stroke.points.length === 0) return false;
+  const half = stroke.strokeWidth / 2;
+  const grown = { minX: box.minX - half, minY: box.minY - half, maxX: box.maxX + half, maxY: box.maxY + half };
+  const pts = getHitPolyline(stroke);
+  if (pts.length === 1) return segmentIntersectsBox(pts[0], pts[0], grown);
+  for (let i = 1; i < pts.length; i++) {
+    if (segmentIntersectsBox(pts[i - 1], pts[i], grown)) return true;
+  }
+  return isSolidStroke(stroke) && isPointInPolygon(box.minX, box.minY, stroke.points);
+}
+
+// ─── Index spatial ────────────────────────────────────────────────────────────
+
+// Côté d'une cellule de la grille, en unités document
+const SPATIAL_CELL_SIZE = 128;
+// Au-delà, un tracé est rangé à part plutôt que dans chacune de ses cellules
+const MAX_CELLS_PER_STROKE = 256;
+
+export interface SpatialEntry {
+  stroke: Stroke;
+  layerId: string;
+  /** Emprise de l'encre : bounding box des points élargie de la demi-épaisseur */
+  bounds: BoundingBox;
+  cells: string[];
+}
+
+/**
+ * Grille uniforme sur les tracés de tous les calques. Mutable : elle vit dans
+ * une ref du hook et est resynchronisée à chaque changement de calques.
+ */
+export interface SpatialIndex {
+  entries: Map<string, SpatialEntry>;
+  cells: Map<string, Set<string>>;
+  /** Tracés couvrant trop de cellules, testés à chaque requête */
+  oversized: Set<string>;
+  /** Tableau de tracés indexé pour chaque calque : un calque inchangé n'est pas re-parcouru */
+  layerStrokes: Map<string, Stroke[]>;
+}
+
+export function createSpatialIndex(): SpatialIndex {
+  return { entries: new Map(), cells: new Map(), oversized: new Set(), layerStrokes: new Map() };
+}
+
+const boxesIntersect = (a: BoundingBox, b: BoundingBox) =>
+  a.maxX >= b.minX && a.minX <= b.maxX && a.maxY >= b.minY && a.minY <= b.maxY;
+
+/** Clés des cellules couvertes par une zone, ou null si elles sont trop nombreuses */
+function getCellKeys(box: BoundingBox): string[] | null {
+  const x0 = Math.floor(box.minX / SPATIAL_CELL_SIZE);
+  const x1 = Math.floor(box.maxX / SPATIAL_CELL_SIZE);
+  const y0 = Math.floor(box.minY / SPATIAL_CELL_SIZE);
+  const y1 = Math.floor(box.maxY / SPATIAL_CELL_SIZE);
+  if ((x1 - x0 + 1) * (y1 - y0 + 1) > MAX_CELLS_PER_STROKE) return null;
+  const keys: string[] = [];
+  for (let cx = x0; cx <= x1; cx++) {
+    for (let cy = y0; cy <= y1; cy++) keys.push(`${cx}:${cy}`);
+  }
+  return keys;
+}
+
+function unindexStroke(index: SpatialIndex, id: string) {
+  const entry = index.entries.get(id);
+  if (!entry) return;
+  for (const key of entry.cells) {
+    const cell = index.cells.get(key);
+    cell?.delete(id);
+    if (cell?.size === 0) index.cells.delete(key);
+  }
+  index.oversized.delete(id);
+  index.entries.delete(id);
+}
+
+function indexStroke(index: SpatialIndex, stroke: Stroke, layerId: string) {
+  unindexStroke(index, stroke.id);
+  const bb = getStrokeBoundingBox(stroke);
+  const half = stroke.strokeWidth / 2;
+  const bounds = { minX: bb.minX - half, minY: bb.minY - half, maxX: bb.maxX + half, maxY: bb.maxY + half };
+  const keys = getCellKeys(bounds);
+  if (keys) {
+    for (const key of keys) {
+      let cell = index.cells.get(key);
+      if (!cell) index.cells.set(key, (cell = new Set()));
+      cell.add(stroke.id);
+    }
+  } else {
+    index.oversized.add(stroke.id);
+  }
+  index.entries.set(stroke.id, { stroke, layerId, bounds, cells: keys ?? [] });
+}
+
+/**
+ * Met l'index à jour depuis les calques. Les tracés étant immuables, seuls
+ * les calques dont le tableau a changé sont comparés, et seuls les tracés
+ * ajoutés, supprimés ou remplacés (transformés, restylés) sont ré-indexés.
+ */
+export function syncSpatialIndex(index: SpatialIndex, layers: Layer[]) {
+  const layerIds = new Set<string>();
+  for (const layer of layers) {
+    layerIds.add(layer.id);
+    const previous = index.layerStrokes.get(layer.id);
+    if (previous === layer.strokes) continue;
+    const ids = new Set(layer.strokes.map(s => s.id));
+    for (const stroke of previous ?? []) {
+      // Un tracé passé dans un autre calque y a déjà été ré-indexé
+      if (!ids.has(stroke.id) && index.entries.get(stroke.id)?.layerId === layer.id) {
+        unindexStroke(index, stroke.id);
+      }
+    }
+    for (const stroke of layer.strokes) {
+      const entry = index.entries.get(stroke.id);
+      if (entry?.stroke !== stroke || entry.layerId !== layer.id) indexStroke(index, stroke, layer.id);
+    }
+    index.layerStrokes.set(layer.id, layer.strokes);
+  }
+  // Calques supprimés
+  for (const [layerId, strokes] of index.layerStrokes) {
+    if (layerIds.has(layerId)) continue;
+    for (const stroke of strokes) {
+      if (index.entries.get(stroke.id)?.layerId === layerId) unindexStroke(index, stroke.id);
+    }
+    index.layerStrokes.delete(layerId);
+  }
+}
+
+/**
+ * Tracés dont l'emprise touche la zone, limités aux calques `layerIds` si fournis.
+ * L'ordre n'est pas celui des calques.
+ */
+export function querySpatialIndex(index: SpatialIndex, box: BoundingBox, layerIds?: Set<string>): SpatialEntry[] {
+  const ids = new Set(index.oversized);
+  const keys = getCellKeys(box);
+  if (keys) {
+    for (const key of keys) index.cells.get(key)?.forEach(id => ids.add(id));
+  } else {
+    // Zone immense (dézoom extrême) : parcours direct
+    index.entries.forEach((_, id) => ids.add(id));
+  }
+  const result: SpatialEntry[] = [];
+  for (const id of ids) {
+    const entry = index.entries.get(id);
+    if (!entry || (layerIds && !layerIds.has(entry.layerId))) continue;
+    if (boxesIntersect(entry.bounds, box)) result.push(entry);
+  }
+  return result;
+}
+
+/** Zone carrée de demi-côté `radius` autour d'un point */
+export function getBoxAround(x: number, y: number, radius: number): BoundingBox {
+  return { minX: x - radius, minY: y - radius, maxX: x + radius, maxY: y + radius };
+}
+
+/**
+ * IDs des tracés sélectionnés par un rectangle, parmi les calques `layerIds` :
+ * - 'touch' : l'encre touche le rectangle (segments, pas la bounding box)
+ * - 'contain' : toute l'encre est dans le rectangle
+ */
+export function getStrokesInRect(
+  index: SpatialIndex,
+  rect: SelectionRect,
+  mode: SelectionMatchMode,
+  layerIds?: Set<string>
+): string[] {
+  const box = {
+    minX: Math.min(rect.x1, rect.x2),
+    maxX: Math.max(rect.x1, rect.x2),
+    minY: Math.min(rect.y1, rect.y2),
+    maxY: Math.max(rect.y1, rect.y2),
+  };
+  return querySpatialIndex(index, box, layerIds)
+    .filter(({ stroke, bounds }) =>
+      mode === 'contain'
+        ? bounds.minX >= box.minX && bounds.maxX <= box.maxX && bounds.minY >= box.minY && bounds.maxY <= box.maxY
+        : strokeTouchesBox(stroke, box)
+    )
+    .map(({ stroke }) => stroke.id);
+}
+
+/** Orientation du triplet (a, b, c) : signe du produit vectoriel */
+const orient = (a: { x: number; y: number }, b: { x: number; y: number }, c: { x: number; y: number }) =>
+  Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+
+/** Les segments a→b et c→d se croisent-ils strictement ? */
+function segmentsCross(a: Point, b: Point, c: { x: number; y: number }, d: { x: number; y: number }): boolean {
+  return orient(a, b, c) * orient(a, b, d) < 0 && orient(c, d, a) * orient(c, d, b) < 0;
+}
+
+/** Un segment du tracé croise-t-il le bord du lasso ? */
+function strokeCrossesPolygon(pts: Point[], polygon: { x: number; y: number }[]): boolean {
+  for (let i = 1; i < pts.length; i++) {
+    for (let j = 0, k = polygon.length - 1; j < polygon.length; k = j++) {
+      if (segmentsCross(pts[i - 1], pts[i], polygon[k], polygon[j])) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * IDs des tracés sélectionnés par un lasso (polygone fermé), parmi les calques
+ * `layerIds`. Tests sur la ligne brisée des tracés, sans leur épaisseur :
+ * - 'touch' : un point dans le lasso, un segment qui croise son bord, ou une
+ *   région pleine (texte, forme remplie) qui entoure le lasso
+ * - 'contain' : tous les points dans le lasso et aucun croisement
+ */
+export function getStrokesInLasso(
+  index: SpatialIndex,
+  lasso: { x: number; y: number }[],
+  mode: SelectionMatchMode,
+  layerIds?: Set<string>
+): string[] {
+  if (lasso.length < 3) return [];
+  const box = {
+    minX: Math.min(...lasso.map(p => p.x)),
+    minY: Math.min(...lasso.map(p => p.y)),
+    maxX: Math.max(...lasso.map(p => p.x)),
+    maxY: Math.max(...lasso.map(p => p.y)),
   };
+  return querySpatialIndex(index, box, layerIds)
+    .filter(({ stroke }) => {
+      const pts = getHitPolyline(stroke);
+      if (pts.length === 0) return false;
+      if (mode === 'contain') {
+        return pts.every(p => isPointInPolygon(p.x, p.y, lasso)) && !strokeCrossesPolygon(pts, lasso);
+      }
+      return (
+        pts.some(p => isPointInPolygon(p.x, p.y, lasso)) ||
+        strokeCrossesPolygon(pts, lasso) ||
+        (isSolidStroke(stroke) && isPointInPolygon(lasso[0].x, lasso[0].y, stroke.points))
+      );
+    })
+    .map(({ stroke }) => stroke.id);
+}
+
+export interface SvgExportOptions {
+  /** Recadre le SVG sur la bounding box du contenu au lieu de la taille du canvas */
+  cropToContent?: boolean;
+  /** Grille dessinée sous les tracés ; absente = pas de grille */
+  grid?: GridSettings;
+}
+
+/** Grille sur la zone exportée, en path SVG M/L (vide sans grille) */
+export function getExportGridPathData(grid: GridSettings | undefined, bounds: ExportBounds): string {
+  if (!grid || grid.type === 'none') return '';
+  const box = { minX: bounds.x, minY: bounds.y, maxX: bounds.x + bounds.width, maxY: bounds.y + bounds.height };
+  return getGridPathData(grid.type, box, grid.size);
+}
+
+/** Épaisseur du trait de grille à l'export : les points sont des segments nuls à bouts ronds */
+export const getExportGridWidth = (grid: GridSettings) =>
+  grid.type === 'dot' ? GRID_EXPORT_DOT_SIZE : GRID_EXPORT_LINE_WIDTH;
+
+/**
+ * Zone à exporter : le canvas entier, ou la bounding box des calques visibles
+ * (arrondie au pixel) si le recadrage est demandé et qu'il y a du contenu.
+ */
+export function getExportBounds(
+  layers: Layer[],
+  width: number,
+  height: number,
+  cropToContent = false
+): ExportBounds {
+  const strokes = layers.filter(l => l.visible).flatMap(l => l.strokes);
+  const bb = cropToContent ? getStrokesBoundingBox(strokes) : null;
+  if (!bb) return { x: 0, y: 0, width, height };
+  // Marge = demi-épaisseur max pour ne pas couper les bords des tracés
+  const padding = Math.max(...strokes.map(s => s.strokeWidth)) / 2 + 4;
+  const x = Math.floor(bb.minX - padding);
+  const y = Math.floor(bb.minY - padding);
+  return { x, y, width: Math.ceil(bb.maxX + padding) - x, height: Math.ceil(bb.maxY + padding) - y };
+}
+
+/**
+ * Élément SVG d'un tracé, depuis la même géométrie que le rendu Skia :
+ * contour plein pour les pinceaux, ligne brisée (et remplissage) pour les formes.
+ */
+function renderStrokeSvg(s: Stroke, precision = 2): string {
+  if (s.text) return getTextSvg(s, precision);
+  const geometry = getStrokeGeometry(s);
+  const opacity = geometry.opacity < 1 ? ` opacity="${geometry.opacity}"` : '';
+  if (geometry.outline) {
+    return `<path d="${geometry.outline}" fill="${s.color}"${opacity} />`;
+  }
+  if (geometry.pieces) {
+    return `<g>${geometry.pieces.map(d => `<path d="${d}" fill="${s.color}"${opacity} />`).join('')}</g>`;
+  }
+  const fill = geometry.fill ? s.color : 'none';
+  return `<path d="${geometry.path}" stroke="${s.color}" stroke-width="${s.strokeWidth}" fill="${fill}" stroke-linecap="round" stroke-linejoin="round"${opacity} />`;
+}
+
+/**
+ * Génère le contenu SVG complet pour export.
+ * Chaque calque visible devient un groupe <g>, de bas en haut, avec son opacité.
+ */
+export function generateSvgContent(
+  layers: Layer[],
+  width: number,
+  height: number,
+  options: SvgExportOptions = {}
+): string {
+  const visibleLayers = layers.filter(l => l.visible && l.strokes.length > 0);
+  const renderLayer = (layer: Layer): string => {
+    const opacity = layer.opacity < 1 ? ` opacity="${layer.opacity}"` : '';
+    return `<g${opacity}>
+    ${layer.strokes.map(s => renderStrokeSvg(s)).join('\n    ')}
+  </g>`;
+  };
+
+  const bounds = getExportBounds(layers, width, height, options.cropToContent);
+  const { x, y, width: w, height: h } = bounds;
+  const gridPath = getExportGridPathData(options.grid, bounds);
+  const grid = gridPath && options.grid
+    ? `<path d="${gridPath}" stroke="${GRID_COLOR}" stroke-width="${getExportGridWidth(options.grid)}" stroke-linecap="round" fill="none" />\n  `
+    : '';
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="${x} ${y} ${w} ${h}" width="${w}" height="${h}">
+  <rect x="${x}" y="${y}" width="${w}" height="${h}" fill="#ffffff" />
+  ${grid}  ${visibleLayers.map(renderLayer).join('\n  ')}
+</svg>`;
+}
+
+/**
+ * Génère un SVG miniature pour les thumbnails de la galerie.
+ * N'utilise que les 10 premiers tracés pour la perf ; comme à l'export,
+ * chaque calque visible devient un groupe <g> avec son opacité.
+ */
+export function generateThumbnailSvg(layers: Layer[], width: number, height: number): string {
+  // 10 premiers tracés des calques visibles, de bas en haut
+  let budget = 10;
+  const topLayers = layers
+    .filter(l => l.visible)
+    .map(l => {
+      const strokes = l.strokes.slice(0, budget);
+      budget -= strokes.length;
+      return { ...l, strokes };
+    })
+    .filter(l => l.strokes.length > 0);
+  if (topLayers.length === 0) return '';
 
   // Calcul de la viewBox ajustée pour zoomer sur le contenu
-  const allBB = topStrokes.reduce(
-    (acc, stroke) => {
-      const bb = getStrokeBoundingBox(stroke);
-      return {
-        minX: Math.min(acc.minX, bb.minX),
-        minY: Math.min(acc.minY, bb.minY),
-        maxX: Math.max(acc.maxX, bb.maxX),
-        maxY: Math.max(acc.maxY, bb.maxY),
-      };
-    },
-    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
-  );
+  const allBB = getStrokesBoundingBox(topLayers.flatMap(l => l.strokes));
 
   let viewBox = `0 0 ${width} ${height}`;
-  if (allBB.minX !== Infinity) {
+  if (allBB) {
     const padding = 20;
     const vW = Math.max(10, allBB.maxX - allBB.minX + padding * 2);
     const vH = Math.max(10, allBB.maxY - allBB.minY + padding * 2);
     viewBox = `${(allBB.minX - padding).toFixed(1)} ${(allBB.minY - padding).toFixed(1)} ${vW.toFixed(1)} ${vH.toFixed(1)}`;
   }
 
-  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="100%" height="100%"><rect width="100%" height="100%" fill="#ffffff" />${topStrokes.map(renderStroke).join('')}</svg>`;
+  const content = topLayers
+    .map(l => {
+      const opacity = l.opacity < 1 ? ` opacity="${l.opacity}"` : '';
+      return `<g${opacity}>${l.strokes.map(s => renderStrokeSvg(s, 1)).join('')}</g>`;
+    })
+    .join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="100%" height="100%"><rect width="100%" height="100%" fill="#ffffff" />${content}</svg>`;
 }
@@ -0,0 +1,189 @@
+import { BoundingBox, GridSettings, SnapGuide } from '../types';
+
+/**
+ * Grille de fond et aimantation. La grille isométrique est un réseau de
+ * triangles équilatéraux de côté `size` : verticales espacées de
+ * size·√3/2, diagonales à ±30°, une colonne sur deux décalée d'un demi-pas.
+ */
+
+export const DEFAULT_GRID: GridSettings = {
+  type: 'none',
+  size: 32,
+  snapToGrid: true,
+  snapToStrokes: true,
+  showRulers: false,
+};
+
+export const GRID_SIZES = [16, 24, 32, 48, 64];
+
+export const GRID_COLOR = '#CBD5E1';
+// Épaisseur des lignes et diamètre des points à l'export (unités document)
+export const GRID_EXPORT_LINE_WIDTH = 0.5;
+export const GRID_EXPORT_DOT_SIZE = 2;
+
+// Espacement minimal des lignes de grille à l'écran : au-delà, une ligne sur deux
+const MIN_GRID_SPACING = 8;
+// Distance d'aimantation sur les bords des tracés, en pixels écran
+export const SNAP_DISTANCE = 8;
+
+const SQRT3 = Math.sqrt(3);
+
+/**
+ * Pas de grille affiché au zoom `scale` : le pas réel doublé jusqu'à être
+ * lisible. Les lignes conservées restent des lignes de la grille réelle.
+ */
+export function getGridStep(size: number, scale: number): number {
+  let step = size;
+  while (step * scale < MIN_GRID_SPACING) step *= 2;
+  return step;
+}
+
+/** Multiples de `step` couvrant [min, max] */
+function range(min: number, max: number, step: number): number[] {
+  const values: number[] = [];
+  for (let v = Math.floor(min / step) * step; v <= max; v += step) values.push(v);
+  return values;
+}
+
+/** Nœuds du réseau isométrique dans la zone */
+function isometricNodes(box: BoundingBox, step: number): { x: number; y: number }[] {
+  const columnWidth = (step * SQRT3) / 2;
+  const nodes: { x: number; y: number }[] = [];
+  for (let i = Math.floor(box.minX / columnWidth); i * columnWidth <= box.maxX; i++) {
+    const offset = (Math.abs(i) % 2) * (step / 2);
+    for (const y of range(box.minY - offset, box.maxY - offset, step)) {
+      nodes.push({ x: i * columnWidth, y: y + offset });
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Path SVG (commandes M/L absolues) de la grille sur la zone `box`, au pas
+ * `step`. Grille de points : un segment de longueur nulle par point, à
+ * tracer avec des extrémités rondes.
+ */
+export function getGridPathData(type: GridSettings['type'], box: BoundingBox, step: number): string {
+  const segments: string[] = [];
+  const line = (x1: number, y1: number, x2: number, y2: number) => segments.push(`M ${x1} ${y1} L ${x2} ${y2}`);
+
+  if (type === 'square') {
+    for (const x of range(box.minX, box.maxX, step)) line(x, box.minY, x, box.maxY);
+    for (const y of range(box.minY, box.maxY, step)) line(box.minX, y, box.maxX, y);
+  } else if (type === 'dot') {
+    for (const x of range(box.minX, box.maxX, step)) {
+      for (const y of range(box.minY, box.maxY, step)) line(x, y, x, y);
+    }
+  } else if (type === 'isometric') {
+    const columnWidth = (step * SQRT3) / 2;
+    for (const x of range(box.minX, box.maxX, columnWidth)) line(x, box.minY, x, box.maxY);
+    // y = ±x/√3 + k·step, tracées d'un bord à l'autre de la zone
+    const rise = (box.maxX - box.minX) / SQRT3;
+    for (const c of range(box.minY - box.maxX / SQRT3, box.maxY - box.minX / SQRT3, step)) {
+      line(box.minX, c + box.minX / SQRT3, box.maxX, c + box.minX / SQRT3 + rise);
+    }
+    for (const c of range(box.minY + box.minX / SQRT3, box.maxY + box.maxX / SQRT3, step)) {
+      line(box.minX, c - box.minX / SQRT3, box.maxX, c - box.minX / SQRT3 - rise);
+    }
+  }
+  return segments.join(' ');
+}
+
+/** Nœud de grille le plus proche du point, ou null sans grille */
+function nearestGridNode(x: number, y: number, grid: GridSettings): { x: number; y: number } | null {
+  const { size } = grid;
+  if (grid.type === 'square' || grid.type === 'dot') {
+    return { x: Math.round(x / size) * size, y: Math.round(y / size) * size };
+  }
+  if (grid.type === 'isometric') {
+    const columnWidth = (size * SQRT3) / 2;
+    const near = { minX: x - columnWidth, minY: y - size, maxX: x + columnWidth, maxY: y + size };
+    let best: { x: number; y: number } | null = null;
+    for (const node of isometricNodes(near, size)) {
+      if (!best || Math.hypot(node.x - x, node.y - y) < Math.hypot(best.x - x, best.y - y)) best = node;
+    }
+    return best;
+  }
+  return null;
+}
+
+/** Lignes d'accroche d'une boîte sur un axe : bords et centre */
+const boxAnchors = (box: BoundingBox, axis: 'x' | 'y') =>
+  axis === 'x' ? [box.minX, (box.minX + box.maxX) / 2, box.maxX] : [box.minY, (box.minY + box.maxY) / 2, box.maxY];
+
+/**
+ * Plus petit décalage (en valeur absolue, ≤ threshold) amenant une des
+ * valeurs `sources` sur une ligne d'accroche des `targets`, ou null.
+ */
+function snapToTargets(
+  sources: number[],
+  targets: BoundingBox[],
+  axis: 'x' | 'y',
+  threshold: number
+): { delta: number; value: number } | null {
+  let best: { delta: number; value: number } | null = null;
+  for (const target of targets) {
+    for (const value of boxAnchors(target, axis)) {
+      for (const source of sources) {
+        const delta = value - source;
+        if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+          best = { delta, value };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+/**
+ * Aimante une boîte (déplacement d'une sélection, ou point si la boîte est
+ * réduite à un point) : sur chaque axe, un bord ou centre d'un autre tracé à
+ * moins de `threshold` l'emporte, sinon le coin haut-gauche suit la grille.
+ * Les accroches sur les tracés produisent un guide.
+ */
+export function snapBox(box: BoundingBox, grid: GridSettings, targets: BoundingBox[], threshold: number): SnapResult {
+  const result: SnapResult = { dx: 0, dy: 0, guides: [] };
+  const node = grid.snapToGrid ? nearestGridNode(box.minX, box.minY, grid) : null;
+  if (node) {
+    result.dx = node.x - box.minX;
+    result.dy = node.y - box.minY;
+  }
+  if (!grid.snapToStrokes) return result;
+
+  const snapX = snapToTargets(boxAnchors(box, 'x'), targets, 'x', threshold);
+  if (snapX) {
+    result.dx = snapX.delta;
+    result.guides.push({ axis: 'x', value: snapX.value });
+  }
+  const snapY = snapToTargets(boxAnchors(box, 'y'), targets, 'y', threshold);
+  if (snapY) {
+    result.dy = snapY.delta;
+    result.guides.push({ axis: 'y', value: snapY.value });
+  }
+  return result;
+}
+
+/** Aimante un point (extrémité de forme) : voir snapBox */
+export function snapPoint(
+  x: number,
+  y: number,
+  grid: GridSettings,
+  targets: BoundingBox[],
+  threshold: number
+): { x: number; y: number; guides: SnapGuide[] } {
+  const { dx, dy, guides } = snapBox({ minX: x, minY: y, maxX: x, maxY: y }, grid, targets, threshold);
+  return { x: x + dx, y: y + dy, guides };
+}
+
+/** Pas des graduations de la règle : 1, 2 ou 5 × 10ⁿ, au moins `minSpacing` pixels écran */
+export function getRulerStep(scale: number, minSpacing = 50): number {
+  const raw = minSpacing / scale;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].map(m => m * magnitude).find(step => step >= raw) ?? 10 * magnitude;
+}
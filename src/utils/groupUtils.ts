@@ -0,0 +1,93 @@
+import { nanoid } from 'nanoid/non-secure';
+import { Stroke } from '../types';
+
+/**
+ * Groupes : chaque tracé porte la liste des groupes qui le contiennent, du
+ * plus englobant au plus imbriqué (`groupIds`). Un groupe n'existe qu'à
+ * travers ses membres ; il est sauvegardé avec eux.
+ *
+ * La sélection travaille par "unités" : le groupe de premier niveau d'un
+ * tracé, ou, une fois entré dans un groupe (`entered`, chemin des groupes
+ * ouverts), le sous-groupe ou le tracé directement sous ce groupe.
+ */
+
+const getGroupIds = (stroke: Stroke) => stroke.groupIds ?? [];
+
+/** Le tracé est-il dans le groupe ouvert `entered` ? */
+export function isInsideGroup(stroke: Stroke, entered: string[]): boolean {
+  const path = getGroupIds(stroke);
+  return entered.every((id, i) => path[i] === id);
+}
+
+/**
+ * Unité de sélection d'un tracé : id du groupe au niveau ouvert (premier
+ * niveau si le tracé est hors du groupe ouvert), ou id du tracé lui-même.
+ */
+export function getSelectionUnitId(stroke: Stroke, entered: string[]): string {
+  const depth = isInsideGroup(stroke, entered) ? entered.length : 0;
+  return getGroupIds(stroke)[depth] ?? stroke.id;
+}
+
+/** L'unité est-elle un groupe (et non un tracé seul) ? */
+export function isGroupUnit(stroke: Stroke, entered: string[]): boolean {
+  return getSelectionUnitId(stroke, entered) !== stroke.id;
+}
+
+/** Tracés de l'unité `unitId` : le tracé lui-même, ou tous les membres du groupe */
+export function getUnitMembers(strokes: Stroke[], unitId: string): Stroke[] {
+  return strokes.filter(s => s.id === unitId || getGroupIds(s).includes(unitId));
+}
+
+/** Étend des ids de tracés à leurs unités complètes (groupes entiers) */
+export function expandToUnits(ids: string[], strokes: Stroke[], entered: string[]): string[] {
+  const wanted = new Set(ids);
+  const units = new Set(strokes.filter(s => wanted.has(s.id)).map(s => getSelectionUnitId(s, entered)));
+  return strokes.filter(s => units.has(getSelectionUnitId(s, entered))).map(s => s.id);
+}
+
+/** Chemin de groupes commun à tous les tracés */
+function getCommonPath(strokes: Stroke[]): string[] {
+  if (strokes.length === 0) return [];
+  const first = getGroupIds(strokes[0]);
+  let length = first.length;
+  for (const stroke of strokes) {
+    const path = getGroupIds(stroke);
+    let i = 0;
+    while (i < length && path[i] === first[i]) i++;
+    length = i;
+  }
+  return first.slice(0, length);
+}
+
+/**
+ * Regroupe les tracés : le nouveau groupe s'insère juste sous leur chemin
+ * commun, et englobe donc les groupes qu'ils formaient déjà.
+ */
+export function groupStrokes(strokes: Stroke[], groupId: string): Stroke[] {
+  const common = getCommonPath(strokes);
+  return strokes.map(s => ({
+    ...s,
+    groupIds: [...common, groupId, ...getGroupIds(s).slice(common.length)],
+  }));
+}
+
+/** Dissout les groupes d'unité des tracés (niveau ouvert `entered`) ; leurs sous-groupes restent */
+export function ungroupStrokes(strokes: Stroke[], entered: string[]): Stroke[] {
+  return strokes.map(s => {
+    if (!isGroupUnit(s, entered)) return s;
+    const depth = isInsideGroup(s, entered) ? entered.length : 0;
+    const groupIds = getGroupIds(s).filter((_, i) => i !== depth);
+    return { ...s, groupIds: groupIds.length > 0 ? groupIds : undefined };
+  });
+}
+
+/** Copies (coller, dupliquer) : de nouveaux groupes, distincts des originaux */
+export function remapGroupIds(strokes: Stroke[]): Stroke[] {
+  const mapping = new Map<string, string>();
+  const remap = (id: string) => {
+    let next = mapping.get(id);
+    if (!next) mapping.set(id, (next = nanoid()));
+    return next;
+  };
+  return strokes.map(s => (s.groupIds ? { ...s, groupIds: s.groupIds.map(remap) } : s));
+}
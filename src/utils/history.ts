@@ -0,0 +1,145 @@
+import { HistoryEntry, HistoryOp, Layer, LayerProps, Stroke } from '../types';
+
+/**
+ * Inverse d'une opération : add ↔ remove, before ↔ after.
+ */
+export function invertOp(op: HistoryOp): HistoryOp {
+  switch (op.type) {
+    case 'add':
+      return { ...op, type: 'remove' };
+    case 'remove':
+      return { ...op, type: 'add' };
+    case 'transform':
+    case 'restyle':
+      return { ...op, before: op.after, after: op.before };
+    case 'addLayer':
+      return { ...op, type: 'removeLayer' };
+    case 'removeLayer':
+      return { ...op, type: 'addLayer' };
+    case 'updateLayer':
+      return { ...op, before: op.after, after: op.before };
+    case 'moveLayer':
+      return { type: 'moveLayer', from: op.to, to: op.from };
+  }
+}
+
+/** Inverse d'une étape : opérations inversées, dans l'ordre inverse */
+export function invertEntry(entry: HistoryEntry): HistoryEntry {
+  return entry.map(invertOp).reverse();
+}
+
+const updateLayerStrokes = (
+  layers: Layer[],
+  layerId: string,
+  fn: (strokes: Stroke[]) => Stroke[]
+): Layer[] => layers.map(l => (l.id === layerId ? { ...l, strokes: fn(l.strokes) } : l));
+
+/**
+ * Applique une opération. Les suppressions et remplacements se font par id,
+ * les insertions à l'index enregistré.
+ */
+export function applyOp(layers: Layer[], op: HistoryOp): Layer[] {
+  switch (op.type) {
+    case 'add':
+      return updateLayerStrokes(layers, op.layerId, strokes => [
+        ...strokes.slice(0, op.index),
+        op.stroke,
+        ...strokes.slice(op.index),
+      ]);
+    case 'remove':
+      return updateLayerStrokes(layers, op.layerId, strokes =>
+        strokes.filter(s => s.id !== op.stroke.id)
+      );
+    case 'transform':
+    case 'restyle':
+      return updateLayerStrokes(layers, op.layerId, strokes =>
+        strokes.map(s => (s.id === op.before.id ? op.after : s))
+      );
+    case 'addLayer':
+      return [...layers.slice(0, op.index), op.layer, ...layers.slice(op.index)];
+    case 'removeLayer':
+      return layers.filter(l => l.id !== op.layer.id);
+    case 'updateLayer':
+      return layers.map(l => (l.id === op.layerId ? { ...l, ...op.after } : l));
+    case 'moveLayer': {
+      const next = [...layers];
+      const [moved] = next.splice(op.from, 1);
+      next.splice(op.to, 0, moved);
+      return next;
+    }
+  }
+}
+
+export function applyEntry(layers: Layer[], entry: HistoryEntry): Layer[] {
+  return entry.reduce(applyOp, layers);
+}
+
+/** Position d'un tracé dans les calques, ou null */
+export function findStroke(
+  layers: Layer[],
+  id: string
+): { layer: Layer; index: number; stroke: Stroke } | null {
+  for (const layer of layers) {
+    const index = layer.strokes.findIndex(s => s.id === id);
+    if (index >= 0) return { layer, index, stroke: layer.strokes[index] };
+  }
+  return null;
+}
+
+/**
+ * Opérations de suppression d'un ensemble de tracés.
+ * Générées de l'index le plus haut au plus bas dans chaque calque, pour que
+ * l'inverse (réinsertion dans l'ordre inverse) retrouve les positions d'origine.
+ */
+export function removeStrokesOps(layers: Layer[], ids: Set<string>): HistoryOp[] {
+  const ops: HistoryOp[] = [];
+  for (const layer of layers) {
+    for (let i = layer.strokes.length - 1; i >= 0; i--) {
+      const stroke = layer.strokes[i];
+      if (ids.has(stroke.id)) ops.push({ type: 'remove', layerId: layer.id, index: i, stroke });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Opérations décrivant le passage des tracés de `before` à `after`
+ * pour les ids donnés (même structure de calques des deux côtés).
+ */
+export function diffStrokesOps(
+  before: Layer[],
+  after: Layer[],
+  ids: Set<string>,
+  type: 'transform' | 'restyle'
+): HistoryOp[] {
+  const ops: HistoryOp[] = [];
+  for (const layer of before) {
+    const afterLayer = after.find(l => l.id === layer.id);
+    if (!afterLayer) continue;
+    for (const stroke of layer.strokes) {
+      if (!ids.has(stroke.id)) continue;
+      const next = afterLayer.strokes.find(s => s.id === stroke.id);
+      if (next && next !== stroke) ops.push({ type, layerId: layer.id, before: stroke, after: next });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Opérations faisant passer un calque à l'ordre `next` (mêmes tracés,
+ * réordonnés) : les tracés déplacés sont retirés du plus haut au plus bas,
+ * puis réinsérés à leur nouvel index du plus bas au plus haut.
+ */
+export function reorderStrokesOps(layer: Layer, next: Stroke[], ids: Set<string>): HistoryOp[] {
+  const removes = removeStrokesOps([layer], ids);
+  const adds: HistoryOp[] = [];
+  next.forEach((stroke, index) => {
+    if (ids.has(stroke.id)) adds.push({ type: 'add', layerId: layer.id, index, stroke });
+  });
+  return [...removes, ...adds];
+}
+
+/** Propriétés d'un calque (sans ses tracés), pour les opérations updateLayer */
+export function getLayerProps(layer: Layer): LayerProps {
+  return { name: layer.name, visible: layer.visible, locked: layer.locked, opacity: layer.opacity };
+}
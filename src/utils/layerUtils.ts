@@ -0,0 +1,85 @@
+import { nanoid } from 'nanoid/non-secure';
+import { Drawing, Layer, Stroke, ZOrderAction } from '../types';
+
+/**
+ * Crée un calque vide (ou pré-rempli), visible et déverrouillé.
+ */
+export function createLayer(name: string, strokes: Stroke[] = []): Layer {
+  return { id: nanoid(), name, visible: true, locked: false, opacity: 1, strokes };
+}
+
+/** Nom par défaut d'un nouveau calque : "Calque N" avec N libre */
+export function getNextLayerName(layers: Layer[]): string {
+  let n = layers.length + 1;
+  while (layers.some(l => l.name === `Calque ${n}`)) n++;
+  return `Calque ${n}`;
+}
+
+/**
+ * Tous les tracés, calques de bas en haut.
+ * `visibleOnly` ignore les calques masqués (rendu, export, miniatures).
+ */
+export function flattenLayers(layers: Layer[], visibleOnly = false): Stroke[] {
+  return layers.filter(l => !visibleOnly || l.visible).flatMap(l => l.strokes);
+}
+
+/** Un calque est modifiable s'il est visible et non verrouillé */
+export function isLayerEditable(layer: Layer | undefined): layer is Layer {
+  return !!layer && layer.visible && !layer.locked;
+}
+
+/** Tracés que l'outil sélection peut atteindre (calques visibles et non verrouillés) */
+export function getSelectableStrokes(layers: Layer[]): Stroke[] {
+  return layers.filter(isLayerEditable).flatMap(l => l.strokes);
+}
+
+/**
+ * Applique `fn` aux tracés de chaque calque modifiable.
+ * Les calques inchangés gardent leur référence.
+ */
+export function mapEditableStrokes(layers: Layer[], fn: (strokes: Stroke[]) => Stroke[]): Layer[] {
+  return layers.map(layer => {
+    if (!isLayerEditable(layer)) return layer;
+    const strokes = fn(layer.strokes);
+    return strokes === layer.strokes ? layer : { ...layer, strokes };
+  });
+}
+
+/**
+ * Nouvel ordre d'empilement des tracés d'un calque (du dessous vers le
+ * dessus) après déplacement des tracés `ids`, dont l'ordre relatif est
+ * conservé. Avancer/reculer fait passer chaque tracé au-dessus/au-dessous
+ * du premier tracé non déplacé voisin. Renvoie `strokes` si rien ne change.
+ */
+export function reorderStrokes(strokes: Stroke[], ids: Set<string>, action: ZOrderAction): Stroke[] {
+  const moved = strokes.filter(s => ids.has(s.id));
+  if (moved.length === 0) return strokes;
+  const others = strokes.filter(s => !ids.has(s.id));
+  let next: Stroke[];
+  if (action === 'front') next = [...others, ...moved];
+  else if (action === 'back') next = [...moved, ...others];
+  else {
+    next = [...strokes];
+    const swap = (i: number, j: number) => ([next[i], next[j]] = [next[j], next[i]]);
+    if (action === 'forward') {
+      for (let i = next.length - 2; i >= 0; i--) {
+        if (ids.has(next[i].id) && !ids.has(next[i + 1].id)) swap(i, i + 1);
+      }
+    } else {
+      for (let i = 1; i < next.length; i++) {
+        if (ids.has(next[i].id) && !ids.has(next[i - 1].id)) swap(i, i - 1);
+      }
+    }
+  }
+  return next.every((s, i) => s === strokes[i]) ? strokes : next;
+}
+
+/**
+ * Convertit un dessin de l'ancien format (tableau `strokes` unique)
+ * en dessin à un seul calque.
+ */
+export function normalizeDrawing(drawing: Drawing): Drawing {
+  if (drawing.layers && drawing.layers.length > 0) return drawing;
+  const { strokes, ...rest } = drawing;
+  return { ...rest, layers: [createLayer('Calque 1', strokes ?? [])] };
+}
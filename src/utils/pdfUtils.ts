@@ -0,0 +1,168 @@
+import { Layer, Stroke } from '../types';
+import { getExportBounds, getExportGridPathData, getExportGridWidth, SvgExportOptions } from './drawingUtils';
+import { GRID_COLOR } from './gridUtils';
+import { getStrokeGeometry } from './strokeGeometry';
+import { getTextLines, TEXT_LINE_HEIGHT } from './textUtils';
+
+/**
+ * Export PDF vectoriel d'une page, écrit à la main (pas de dépendance native) :
+ * même géométrie que le canvas et l'export SVG, en opérateurs de contenu PDF.
+ */
+
+const num = (v: number) => v.toFixed(2);
+
+/** '#RGB' / '#RRGGBB' (/ '#RRGGBBAA', alpha ignoré) → composantes 0..1 */
+function parseColor(color: string): [number, number, number] {
+  let hex = color.replace('#', '');
+  if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+  const value = parseInt(hex.slice(0, 6), 16);
+  if (Number.isNaN(value)) return [0, 0, 0];
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(c => c / 255) as [number, number, number];
+}
+
+const colorOps = (color: string, op: 'RG' | 'rg') => `${parseColor(color).map(c => c.toFixed(3)).join(' ')} ${op}`;
+
+/** Path SVG à commandes absolues M/L/Z (contours et formes de strokeGeometry) → opérateurs PDF */
+function svgPathOps(d: string): string {
+  const tokens = d.trim().split(/[\s,]+/);
+  const ops: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const cmd = tokens[i];
+    if (cmd === 'M' || cmd === 'L') {
+      ops.push(`${num(Number(tokens[i + 1]))} ${num(Number(tokens[i + 2]))} ${cmd === 'M' ? 'm' : 'l'}`);
+      i += 2;
+    } else if (cmd === 'Z') {
+      ops.push('h');
+    }
+  }
+  return ops.join('\n');
+}
+
+/** Chaîne littérale PDF en WinAnsi : les caractères hors Latin-1 deviennent '?' */
+function pdfString(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 63;
+    if (ch === '(' || ch === ')' || ch === '\\') out += `\\${ch}`;
+    else if (code < 32 || code > 255) out += '?';
+    else if (code > 126) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += ch;
+  }
+  return `(${out})`;
+}
+
+/**
+ * Texte : la page est retournée (axe y vers le bas), la matrice de texte
+ * rétablit les glyphes à l'endroit et applique la rotation.
+ */
+function textOps(stroke: Stroke): string {
+  if (!stroke.text || stroke.points.length === 0) return '';
+  const { content, fontSize, rotation } = stroke.text;
+  const { x, y } = stroke.points[0];
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const lines = getTextLines(content).map((line, i) => {
+    const dy = fontSize * (TEXT_LINE_HEIGHT * i + 1);
+    const bx = x - sin * dy;
+    const by = y + cos * dy;
+    return `${num(cos)} ${num(sin)} ${num(sin)} ${num(-cos)} ${num(bx)} ${num(by)} Tm ${pdfString(line)} Tj`;
+  });
+  return `BT\n/F1 ${num(fontSize)} Tf\n${colorOps(stroke.color, 'rg')}\n${lines.join('\n')}\nET`;
+}
+
+/**
+ * Génère un PDF d'une page (taille = zone exportée, 1 unité document = 1 pt).
+ * Un calque semi-transparent est un groupe de transparence (Form XObject) :
+ * ses tracés y sont peints entre eux, puis le groupe est composé une seule
+ * fois avec l'opacité du calque, comme au canvas et en SVG. De même pour le
+ * contour et le remplissage d'une forme pleine semi-transparente.
+ */
+export function generatePdfContent(
+  layers: Layer[],
+  width: number,
+  height: number,
+  options: SvgExportOptions = {}
+): string {
+  const bounds = getExportBounds(layers, width, height, options.cropToContent);
+  // États graphiques d'opacité, partagés par valeur
+  const alphaStates = new Map<number, string>();
+  const withAlpha = (alpha: number, ops: string) => {
+    if (alpha >= 1) return ops;
+    const key = Math.round(alpha * 1000) / 1000;
+    if (!alphaStates.has(key)) alphaStates.set(key, `GS${alphaStates.size + 1}`);
+    return `q /${alphaStates.get(key)} gs\n${ops}\nQ`;
+  };
+  // Contenu des groupes de transparence, nommés /G1, /G2… dans l'ordre
+  const groups: string[] = [];
+  /** Peint `ops` opaques dans un groupe, composé une seule fois avec `alpha` */
+  const asGroup = (alpha: number, ops: string) => {
+    if (alpha >= 1) return ops;
+    groups.push(ops);
+    return withAlpha(alpha, `/G${groups.length} Do`);
+  };
+
+  const renderStroke = (s: Stroke): string => {
+    if (s.text) return withAlpha(s.opacity ?? 1, textOps(s));
+    const geometry = getStrokeGeometry(s);
+    const alpha = geometry.opacity;
+    if (geometry.outline) {
+      return withAlpha(alpha, `${colorOps(s.color, 'rg')}\n${svgPathOps(geometry.outline)}\nf`);
+    }
+    if (geometry.pieces) {
+      // Un remplissage par portion : l'opacité se cumule aux croisements
+      const fills = geometry.pieces.map(d => `${svgPathOps(d)}\nf`).join('\n');
+      return withAlpha(alpha, `${colorOps(s.color, 'rg')}\n${fills}`);
+    }
+    const style = `${num(s.strokeWidth)} w 1 J 1 j ${colorOps(s.color, 'RG')}`;
+    const fill = geometry.fill ? `\n${colorOps(s.color, 'rg')}` : '';
+    const ops = `${style}${fill}\n${svgPathOps(geometry.path ?? '')}\n${geometry.fill ? 'B' : 'S'}`;
+    // Forme pleine : le contour ne doit pas se cumuler au remplissage qu'il recouvre
+    return geometry.fill ? asGroup(alpha, ops) : withAlpha(alpha, ops);
+  };
+
+  const body = layers
+    .filter(l => l.visible && l.strokes.length > 0)
+    .map(l => asGroup(l.opacity, l.strokes.map(s => `q\n${renderStroke(s)}\nQ`).join('\n')))
+    .join('\n');
+  const gridPath = getExportGridPathData(options.grid, bounds);
+  const grid = gridPath && options.grid
+    ? `q\n${num(getExportGridWidth(options.grid))} w 1 J ${colorOps(GRID_COLOR, 'RG')}\n${svgPathOps(gridPath)}\nS\nQ\n`
+    : '';
+  // Repère document : origine en haut à gauche de la zone exportée, y vers le bas
+  const content = `1 0 0 -1 ${num(-bounds.x)} ${num(bounds.y + bounds.height)} cm\n${grid}${body}`;
+
+  const extGState = [...alphaStates.entries()]
+    .map(([alpha, name]) => `/${name} << /Type /ExtGState /CA ${alpha} /ca ${alpha} >>`)
+    .join(' ');
+  // Groupes en objets 6, 7… ; leur repère est celui de la page au moment du Do
+  // (coordonnées document). Un groupe de calque peut contenir ceux de ses formes.
+  const xObjects = groups.map((_, i) => `/G${i + 1} ${i + 6} 0 R`).join(' ');
+  const resources = `/Font << /F1 4 0 R >> /ExtGState << ${extGState} >> /XObject << ${xObjects} >>`;
+  const bbox = [bounds.x, bounds.y, bounds.x + bounds.width, bounds.y + bounds.height].map(num).join(' ');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${bounds.width} ${bounds.height}] ` +
+      `/Resources << ${resources} >> /Contents 5 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ...groups.map(
+      ops =>
+        `<< /Type /XObject /Subtype /Form /BBox [${bbox}] /Group << /S /Transparency /I true >> ` +
+        `/Resources << ${resources} >> /Length ${ops.length} >>\nstream\n${ops}\nendstream`
+    ),
+  ];
+
+  // Le contenu est en ASCII pur : longueur de chaîne = nombre d'octets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((obj, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return pdf;
+}
@@ -0,0 +1,125 @@
+import { BrushType, Point, ShapeOptions, ShapeType } from '../types';
+
+export const SHAPE_TYPES: ShapeType[] = ['line', 'rectangle', 'ellipse', 'arrow', 'polygon'];
+
+// Espacement max entre deux points d'un contour : la gomme et le hit-testing
+// travaillent sur les points, il faut donc des côtés échantillonnés.
+const SAMPLE_STEP = 6;
+const ELLIPSE_SEGMENTS = 64;
+const ANGLE_SNAP = Math.PI / 4;
+
+export function isShapeType(type: BrushType): type is ShapeType {
+  return (SHAPE_TYPES as BrushType[]).includes(type);
+}
+
+export function isClosedShape(type: ShapeType): boolean {
+  return type === 'rectangle' || type === 'ellipse' || type === 'polygon';
+}
+
+const pt = (x: number, y: number): Point => ({ x, y, pressure: 0.5 });
+
+/**
+ * Ajoute des points intermédiaires sur chaque côté, sommets conservés.
+ */
+function densify(vertices: Point[], closed: boolean): Point[] {
+  const ring = closed ? [...vertices, vertices[0]] : vertices;
+  const out: Point[] = [ring[0]];
+  for (let i = 1; i < ring.length; i++) {
+    const a = ring[i - 1];
+    const b = ring[i];
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / SAMPLE_STEP));
+    for (let k = 1; k <= steps; k++) {
+      out.push(pt(a.x + ((b.x - a.x) * k) / steps, a.y + ((b.y - a.y) * k) / steps));
+    }
+  }
+  // Le contour fermé n'a pas besoin de répéter le premier point
+  if (closed) out.pop();
+  return out;
+}
+
+/** Contrainte d'angle : direction arrondie au multiple de 45° le plus proche */
+function snapAngle(start: Point, end: Point): Point {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const angle = Math.round(Math.atan2(end.y - start.y, end.x - start.x) / ANGLE_SNAP) * ANGLE_SNAP;
+  return pt(start.x + Math.cos(angle) * length, start.y + Math.sin(angle) * length);
+}
+
+/** Contrainte carré/cercle : même dimension sur les deux axes, dans la direction du drag */
+function squareCorner(start: Point, end: Point): Point {
+  const size = Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+  return pt(start.x + Math.sign(end.x - start.x || 1) * size, start.y + Math.sign(end.y - start.y || 1) * size);
+}
+
+/**
+ * Points d'une forme tracée de `start` à `end` (coordonnées document).
+ * - rectangle / ellipse : `start` et `end` sont deux coins opposés
+ * - polygone : `start` est le centre, `end` un sommet
+ * - flèche : la pointe est en `end`, taille proportionnelle à l'épaisseur
+ */
+export function getShapePoints(
+  type: ShapeType,
+  start: Point,
+  end: Point,
+  strokeWidth: number,
+  options: ShapeOptions
+): Point[] {
+  switch (type) {
+    case 'line': {
+      const e = options.constrain ? snapAngle(start, end) : end;
+      return densify([pt(start.x, start.y), e], false);
+    }
+    case 'arrow': {
+      const e = options.constrain ? snapAngle(start, end) : end;
+      const angle = Math.atan2(e.y - start.y, e.x - start.x);
+      const head = Math.max(12, strokeWidth * 3);
+      const left = pt(e.x - head * Math.cos(angle - Math.PI / 6), e.y - head * Math.sin(angle - Math.PI / 6));
+      const right = pt(e.x - head * Math.cos(angle + Math.PI / 6), e.y - head * Math.sin(angle + Math.PI / 6));
+      // Tracé continu : corps, branche gauche, retour à la pointe, branche droite
+      return densify([pt(start.x, start.y), e, left, e, right], false);
+    }
+    case 'rectangle': {
+      const e = options.constrain ? squareCorner(start, end) : end;
+      return densify([pt(start.x, start.y), pt(e.x, start.y), pt(e.x, e.y), pt(start.x, e.y)], true);
+    }
+    case 'ellipse': {
+      const e = options.constrain ? squareCorner(start, end) : end;
+      const cx = (start.x + e.x) / 2;
+      const cy = (start.y + e.y) / 2;
+      const rx = Math.abs(e.x - start.x) / 2;
+      const ry = Math.abs(e.y - start.y) / 2;
+      const points: Point[] = [];
+      for (let i = 0; i < ELLIPSE_SEGMENTS; i++) {
+        const t = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        points.push(pt(cx + rx * Math.cos(t), cy + ry * Math.sin(t)));
+      }
+      return points;
+    }
+    case 'polygon': {
+      const sides = Math.max(3, Math.round(options.polygonSides));
+      const radius = Math.hypot(end.x - start.x, end.y - start.y);
+      let rotation = Math.atan2(end.y - start.y, end.x - start.x);
+      // Contrainte : polygone "posé" sur un côté horizontal. Sommet en haut
+      // pour un nombre impair de côtés (le côté opposé est en bas) ; décalé
+      // d'un demi-pas pour un nombre pair, sinon il reposerait sur une pointe
+      if (options.constrain) rotation = -Math.PI / 2 + (sides % 2 === 0 ? Math.PI / sides : 0);
+      const vertices: Point[] = [];
+      for (let i = 0; i < sides; i++) {
+        const t = rotation + (i / sides) * Math.PI * 2;
+        vertices.push(pt(start.x + radius * Math.cos(t), start.y + radius * Math.sin(t)));
+      }
+      return densify(vertices, true);
+    }
+  }
+}
+
+/**
+ * Path SVG d'une ligne brisée (formes : pas de lissage, angles conservés).
+ */
+export function getPolylinePath(points: Point[], closed: boolean): string {
+  if (points.length === 0) return '';
+  let d = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 1; i < points.length; i++) {
+    d += ` L ${points[i].x} ${points[i].y}`;
+  }
+  return closed ? `${d} Z` : d;
+}
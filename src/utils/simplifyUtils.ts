@@ -0,0 +1,84 @@
+import { Layer, Point, Stroke } from '../types';
+import { FREEHAND_BRUSHES, getSvgPathFromPoints } from './drawingUtils';
+import { getFreehandOptions, getStreamlinedPoints, usesFreehandSamples } from './strokeGeometry';
+
+/**
+ * Simplification des tracés à main levée (Ramer–Douglas–Peucker) : retire
+ * les échantillons qui ne changent presque rien au trajet ni à l'épaisseur.
+ * Les formes (contours échantillonnés exprès) et les textes ne sont pas touchés.
+ */
+
+// Écart maximal toléré, en unités document
+export const SIMPLIFY_TOLERANCE = 0.5;
+
+/**
+ * Distance du point p au segment a→b dans l'espace (x, y, pression × pressureScale) :
+ * un écart de pression compte comme l'écart de bord qu'il produit au rendu.
+ */
+function distanceToSegment(p: Point, a: Point, b: Point, pressureScale: number): number {
+  const d = [b.x - a.x, b.y - a.y, (b.pressure - a.pressure) * pressureScale];
+  const v = [p.x - a.x, p.y - a.y, (p.pressure - a.pressure) * pressureScale];
+  const lengthSq = d[0] * d[0] + d[1] * d[1] + d[2] * d[2];
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, (v[0] * d[0] + v[1] * d[1] + v[2] * d[2]) / lengthSq)) : 0;
+  return Math.hypot(v[0] - d[0] * t, v[1] - d[1] * t, v[2] - d[2] * t);
+}
+
+/**
+ * Points conservés par Ramer–Douglas–Peucker (premier et dernier toujours
+ * gardés). Pile explicite : pas de récursion sur les longs tracés.
+ */
+export function simplifyPoints(points: Point[], tolerance: number, pressureScale = 0): Point[] {
+  if (points.length <= 2) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last], pressureScale);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Tracé simplifié (même objet s'il n'y a rien à retirer).
+ * Le lissage et la pression simulée du générateur freehand dépendent de la
+ * densité des points : ils sont d'abord figés dans les points (`streamlined`),
+ * sans quoi retirer des points changerait le rendu. Le bord s'y déplace d'au
+ * plus strokeWidth par unité de pression : c'est l'échelle de la pression.
+ */
+export function simplifyStroke(stroke: Stroke, tolerance = SIMPLIFY_TOLERANCE): Stroke {
+  if (!FREEHAND_BRUSHES.includes(stroke.brushType)) return stroke;
+  const freehand = usesFreehandSamples(stroke);
+  const bake = freehand && !stroke.streamlined;
+  const source = bake ? getStreamlinedPoints(stroke.points, getFreehandOptions(stroke)) : stroke.points;
+  const points = simplifyPoints(source, tolerance, freehand ? stroke.strokeWidth : 0);
+  if (!bake && points.length === stroke.points.length) return stroke;
+  return { ...stroke, points, pathData: getSvgPathFromPoints(points), ...(bake && { streamlined: true }) };
+}
+
+/** Simplifie tous les tracés des calques ; compte les points retirés */
+export function simplifyLayers(layers: Layer[], tolerance = SIMPLIFY_TOLERANCE): { layers: Layer[]; removedPoints: number } {
+  let removedPoints = 0;
+  const next = layers.map(layer => ({
+    ...layer,
+    strokes: layer.strokes.map(s => {
+      const simplified = simplifyStroke(s, tolerance);
+      removedPoints += s.points.length - simplified.points.length;
+      return simplified;
+    }),
+  }));
+  return { layers: next, removedPoints };
+}
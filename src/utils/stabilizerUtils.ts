@@ -0,0 +1,77 @@
+import { Point, StabilizerSettings } from '../types';
+
+/**
+ * Stabilisateur des tracés à main levée : filtre les échantillons du doigt
+ * avant qu'ils n'entrent dans le tracé. Le tracé affiché suit le pinceau
+ * lissé, en retard sur le doigt, et ce sont ces points lissés qui sont gardés.
+ */
+
+export const DEFAULT_STABILIZER: StabilizerSettings = { mode: 'none', strength: 0.5 };
+
+// Longueur de la corde à force maximale, en pixels écran
+const MAX_STRING_LENGTH = 60;
+// Taille de la fenêtre de moyenne à force maximale, en échantillons
+const MAX_AVERAGE_WINDOW = 16;
+
+export interface StabilizerState {
+  settings: StabilizerSettings;
+  /** Longueur de la corde en unités document (zoom du début du tracé) */
+  stringLength: number;
+  /** Position courante du pinceau */
+  brush: Point;
+  /** Derniers échantillons bruts, pour la moyenne glissante */
+  samples: Point[];
+}
+
+export function createStabilizer(settings: StabilizerSettings, start: Point, scale: number): StabilizerState {
+  return {
+    settings,
+    stringLength: (settings.strength * MAX_STRING_LENGTH) / scale,
+    brush: start,
+    samples: [start],
+  };
+}
+
+const averagePoint = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  pressure: points.reduce((sum, p) => sum + p.pressure, 0) / points.length,
+});
+
+/**
+ * Nouvel échantillon du doigt → point à ajouter au tracé, ou null si le
+ * pinceau ne bouge pas (doigt encore dans la longueur de la corde).
+ */
+export function stabilizePoint(state: StabilizerState, point: Point): Point | null {
+  const { mode, strength } = state.settings;
+  if (mode === 'string') {
+    const { brush, stringLength } = state;
+    const distance = Math.hypot(point.x - brush.x, point.y - brush.y);
+    if (distance <= stringLength) return null;
+    // Le pinceau avance juste assez pour que la corde reste tendue
+    const t = (distance - stringLength) / distance;
+    state.brush = { x: brush.x + (point.x - brush.x) * t, y: brush.y + (point.y - brush.y) * t, pressure: point.pressure };
+    return state.brush;
+  }
+  if (mode === 'average') {
+    const size = 1 + Math.round(strength * (MAX_AVERAGE_WINDOW - 1));
+    state.samples = [...state.samples, point].slice(-size);
+    state.brush = averagePoint(state.samples);
+    return state.brush;
+  }
+  return point;
+}
+
+/**
+ * Fin du tracé : la moyenne glissante rattrape le dernier échantillon en
+ * vidant sa fenêtre ; le pinceau à corde s'arrête là où il est.
+ */
+export function flushStabilizer(state: StabilizerState): Point[] {
+  if (state.settings.mode !== 'average') return [];
+  const tail: Point[] = [];
+  for (let samples = state.samples.slice(1); samples.length > 0; samples = samples.slice(1)) {
+    tail.push(averagePoint(samples));
+  }
+  state.samples = state.samples.slice(-1);
+  return tail;
+}
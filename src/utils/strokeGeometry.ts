@@ -0,0 +1,364 @@
+import { NibSettings, Point, Stroke } from '../types';
+import { isShapeType } from './shapeUtils';
+
+/**
+ * Géométrie de rendu d'un tracé, partagée par le canvas Skia, l'export SVG,
+ * les miniatures et l'export PDF : ce qui est affiché est exactement ce qui est exporté.
+ *
+ * Les pinceaux à main levée deviennent un contour plein à épaisseur variable ;
+ * les formes restent une ligne brisée tracée à épaisseur constante (angles nets).
+ */
+export interface StrokeGeometry {
+  /** Contour plein (pinceaux à main levée), commandes M/L/Z uniquement */
+  outline?: string;
+  /** Marker en superposition : portions du contour peintes chacune avec `opacity` */
+  pieces?: string[];
+  /** Ligne brisée d'une forme, tracée à `strokeWidth` */
+  path?: string;
+  /** Intérieur d'une forme fermée remplie */
+  fill?: string;
+  /** Opacité propre au pinceau (marker) */
+  opacity: number;
+}
+
+export interface Sample {
+  x: number;
+  y: number;
+  /** Épaisseur au point */
+  w: number;
+}
+
+// Pas d'échantillonnage des courbes lissées, en unités document
+const SAMPLE_STEP = 2;
+// Pas plus large pour la plume : chaque pas produit un polygone
+const NIB_SAMPLE_STEP = 4;
+// Nombre de segments des embouts arrondis (demi-cercle)
+const CAP_SEGMENTS = 8;
+// Vitesse à laquelle la pression simulée suit la vitesse du trait
+const RATE_OF_PRESSURE_CHANGE = 0.275;
+const MARKER_OPACITY = 0.5;
+
+export interface FreehandOptions {
+  /** Épaisseur de référence (pression 0.5) */
+  size: number;
+  /** Influence de la pression sur l'épaisseur : 0 = constante, 1 = maximale */
+  thinning: number;
+  /** Lissage du trajet : 0 = points bruts, 1 = très lissé */
+  streamline: number;
+  /** Pression déduite de la vitesse (rapide = fin) au lieu des points */
+  simulatePressure: boolean;
+  /** Longueurs d'effilement au début et à la fin (0 = aucun) */
+  taperStart: number;
+  taperEnd: number;
+}
+
+// Réglages par pinceau ; les longueurs d'effilement sont relatives à l'épaisseur
+const PEN_PRESET = { thinning: 0.5, streamline: 0.5, taper: 3 };
+const CALLIGRAPHY_PRESET = { thinning: 0.8, streamline: 0.4, taper: 4 };
+
+const fmt = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Échantillonne la même courbe que getSvgPathFromPoints (quadratiques dont le
+ * contrôle est le point du tracé et l'extrémité le milieu du segment suivant).
+ * L'épaisseur suit les mêmes poids que la position.
+ */
+function sampleSmoothCurve(points: Point[], widths: number[], step = SAMPLE_STEP): Sample[] {
+  const samples: Sample[] = [{ x: points[0].x, y: points[0].y, w: widths[0] }];
+  const push = (s: Sample) => {
+    const last = samples[samples.length - 1];
+    if (Math.hypot(s.x - last.x, s.y - last.y) > 0.01) samples.push(s);
+  };
+  let start: Sample = samples[0];
+  for (let i = 1; i < points.length - 1; i++) {
+    const ctrl: Sample = { x: points[i].x, y: points[i].y, w: widths[i] };
+    const end: Sample = {
+      x: (points[i].x + points[i + 1].x) / 2,
+      y: (points[i].y + points[i + 1].y) / 2,
+      w: (widths[i] + widths[i + 1]) / 2,
+    };
+    const length = Math.hypot(ctrl.x - start.x, ctrl.y - start.y) + Math.hypot(end.x - ctrl.x, end.y - ctrl.y);
+    const steps = Math.max(1, Math.ceil(length / step));
+    for (let k = 1; k <= steps; k++) {
+      const t = k / steps;
+      const a = (1 - t) * (1 - t);
+      const b = 2 * (1 - t) * t;
+      const c = t * t;
+      push({
+        x: a * start.x + b * ctrl.x + c * end.x,
+        y: a * start.y + b * ctrl.y + c * end.y,
+        w: a * start.w + b * ctrl.w + c * end.w,
+      });
+    }
+    start = end;
+  }
+  const last = points.length - 1;
+  if (last > 0) push({ x: points[last].x, y: points[last].y, w: widths[last] });
+  return samples;
+}
+
+const easeOutQuad = (t: number) => t * (2 - t);
+
+/**
+ * Trajet lissé (streamline) d'un tracé à main levée, avec la pression finale
+ * de chaque point : réelle, ou simulée depuis la vitesse. Ces deux étapes
+ * dépendent de la densité des points ; un tracé `streamlined` stocke leur résultat.
+ */
+export function getStreamlinedPoints(points: Point[], options: FreehandOptions): Point[] {
+  if (points.length === 0) return [];
+  const { size, streamline, simulatePressure } = options;
+
+  // Chaque point se rapproche du doigt d'une fraction t : plus t est petit, plus le trajet est lissé
+  const t = 0.15 + (1 - streamline) * 0.85;
+  const pts: Point[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const prev = pts[pts.length - 1];
+    const pt = points[i];
+    pts.push({ x: prev.x + (pt.x - prev.x) * t, y: prev.y + (pt.y - prev.y) * t, pressure: pt.pressure });
+  }
+  // Le trait rejoint toujours le dernier point réel
+  if (points.length > 1) pts.push(points[points.length - 1]);
+
+  let prevPressure = simulatePressure ? 0.5 : pts[0].pressure;
+  return pts.map((pt, i) => {
+    let pressure: number;
+    if (simulatePressure) {
+      const distance = i === 0 ? 0 : Math.hypot(pt.x - pts[i - 1].x, pt.y - pts[i - 1].y);
+      const speed = Math.min(1, distance / size);
+      const target = Math.min(1, 1 - speed);
+      pressure = Math.min(1, prevPressure + (target - prevPressure) * speed * RATE_OF_PRESSURE_CHANGE);
+    } else {
+      pressure = Math.min(1, Math.max(0, pt.pressure));
+    }
+    prevPressure = pressure;
+    return { ...pt, pressure };
+  });
+}
+
+/**
+ * Tracé à main levée → échantillons à épaisseur variable :
+ * trajet lissé et pression (getStreamlinedPoints), amincissement selon la
+ * pression, effilement au début et à la fin.
+ */
+export function getFreehandSamples(points: Point[], options: FreehandOptions): Sample[] {
+  if (points.length === 0) return [];
+  const { size, thinning, taperStart, taperEnd } = options;
+  const pts = getStreamlinedPoints(points, options);
+
+  const running = [0];
+  for (let i = 1; i < pts.length; i++) {
+    running.push(running[i - 1] + Math.hypot(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y));
+  }
+  const total = running[running.length - 1];
+  // Un tracé plus court que son épaisseur (un point) n'est pas effilé
+  const canTaper = total > size;
+
+  const widths = pts.map(({ pressure }, i) => {
+    let radius = size * (0.5 - thinning * (0.5 - pressure));
+    if (canTaper) {
+      const start = taperStart > 0 ? easeOutQuad(Math.min(1, running[i] / taperStart)) : 1;
+      const end = taperEnd > 0 ? easeOutQuad(Math.min(1, (total - running[i]) / taperEnd)) : 1;
+      radius *= Math.min(start, end);
+    }
+    return Math.max(0.2, radius * 2);
+  });
+
+  return sampleSmoothCurve(pts, widths);
+}
+
+/** Tracés rendus par le générateur freehand : pen, et calligraphie sans plume */
+export const usesFreehandSamples = (stroke: Stroke) =>
+  stroke.brushType === 'pen' || (stroke.brushType === 'calligraphy' && !stroke.nib);
+
+/** Réglages d'outline d'un tracé pen / calligraphie (points déjà lissés : rendus tels quels) */
+export function getFreehandOptions(stroke: Stroke): FreehandOptions {
+  const preset = stroke.brushType === 'calligraphy' ? CALLIGRAPHY_PRESET : PEN_PRESET;
+  const taper = stroke.strokeWidth * preset.taper;
+  return {
+    size: stroke.strokeWidth,
+    thinning: preset.thinning,
+    streamline: stroke.streamlined ? 0 : preset.streamline,
+    simulatePressure: !stroke.streamlined && !!stroke.simulatePressure,
+    taperStart: taper,
+    taperEnd: taper,
+  };
+}
+
+/** Points d'un arc de cercle (centre, rayon, angle de départ, balayage) sans le point de départ */
+function arcPoints(cx: number, cy: number, r: number, from: number, sweep: number, segments: number) {
+  const pts: { x: number; y: number }[] = [];
+  for (let k = 1; k <= segments; k++) {
+    const a = from + (sweep * k) / segments;
+    pts.push({ x: cx + Math.cos(a) * r, y: cy + Math.sin(a) * r });
+  }
+  return pts;
+}
+
+const toPath = (pts: { x: number; y: number }[]) =>
+  pts.map((p, i) => `${i === 0 ? 'M' : 'L'} ${fmt(p.x)} ${fmt(p.y)}`).join(' ') + ' Z';
+
+/**
+ * Bords gauche et droit d'une ligne à épaisseur variable, décalés de la
+ * demi-épaisseur selon la normale en chaque échantillon.
+ */
+function getOutlineEdges(samples: Sample[]) {
+  const left: { x: number; y: number }[] = [];
+  const right: { x: number; y: number }[] = [];
+  const angles: number[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    const prev = samples[Math.max(0, i - 1)];
+    const next = samples[Math.min(samples.length - 1, i + 1)];
+    const angle = Math.atan2(next.y - prev.y, next.x - prev.x);
+    const r = samples[i].w / 2;
+    // Normale = tangente tournée de +90°
+    const nx = -Math.sin(angle) * r;
+    const ny = Math.cos(angle) * r;
+    left.push({ x: samples[i].x + nx, y: samples[i].y + ny });
+    right.push({ x: samples[i].x - nx, y: samples[i].y - ny });
+    angles.push(angle);
+  }
+  return { left, right, angles };
+}
+
+/**
+ * Polygone de la portion [from, to] : bord gauche à l'aller, bord droit au
+ * retour. Les embouts arrondis ne sont ajoutés qu'aux vraies extrémités du
+ * tracé ; deux portions voisines partagent exactement leur bord commun.
+ */
+function outlinePolygon(samples: Sample[], edges: ReturnType<typeof getOutlineEdges>, from: number, to: number) {
+  const { left, right, angles } = edges;
+  const last = samples.length - 1;
+  const first = samples[from];
+  const end = samples[to];
+  return toPath([
+    ...left.slice(from, to + 1),
+    // Embout final : de la normale vers l'avant puis vers -normale
+    ...(to === last ? arcPoints(end.x, end.y, end.w / 2, angles[to] + Math.PI / 2, -Math.PI, CAP_SEGMENTS).slice(0, -1) : []),
+    ...right.slice(from, to + 1).reverse(),
+    // Embout initial : de -normale vers l'arrière puis vers la normale
+    ...(from === 0 ? arcPoints(first.x, first.y, first.w / 2, angles[from] - Math.PI / 2, -Math.PI, CAP_SEGMENTS).slice(0, -1) : []),
+  ]);
+}
+
+const dotPath = ({ x, y, w }: Sample) => toPath(arcPoints(x, y, w / 2, 0, Math.PI * 2, CAP_SEGMENTS * 2));
+
+/**
+ * Contour plein d'une ligne à épaisseur variable : un seul polygone avec
+ * embouts arrondis, rempli en règle non nulle (les croisements restent pleins).
+ */
+export function getOutlinePath(samples: Sample[]): string {
+  if (samples.length === 0) return '';
+  if (samples.length === 1) return dotPath(samples[0]);
+  return outlinePolygon(samples, getOutlineEdges(samples), 0, samples.length - 1);
+}
+
+/**
+ * Même contour découpé en portions d'environ `pieceLength` : peintes séparément
+ * avec de l'opacité, elles s'accumulent là où le tracé se recroise.
+ */
+export function getOutlinePieces(samples: Sample[], pieceLength: number): string[] {
+  if (samples.length === 0) return [];
+  if (samples.length === 1) return [dotPath(samples[0])];
+  const edges = getOutlineEdges(samples);
+  const pieces: string[] = [];
+  let from = 0;
+  let length = 0;
+  for (let i = 1; i < samples.length; i++) {
+    length += Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y);
+    if (length >= pieceLength || i === samples.length - 1) {
+      pieces.push(outlinePolygon(samples, edges, from, i));
+      from = i;
+      length = 0;
+    }
+  }
+  return pieces;
+}
+
+type Vec = { x: number; y: number };
+
+/** Enveloppe convexe (chaîne monotone) : toujours dans le même sens de parcours */
+function convexHull(points: Vec[]): Vec[] {
+  const pts = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Vec, a: Vec, b: Vec) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const lower: Vec[] = [];
+  for (const p of pts) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Vec[] = [];
+  for (let i = pts.length - 1; i >= 0; i--) {
+    const p = pts[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+/**
+ * Contour d'un tracé à la plume biseautée : union des zones balayées par la
+ * plume entre deux échantillons (enveloppe des deux rectangles). Les polygones
+ * ont tous la même orientation, leur union se remplit sans trou en règle non nulle.
+ */
+export function getNibOutline(points: Point[], size: number, nib: NibSettings): string {
+  if (points.length === 0) return '';
+  const samples = sampleSmoothCurve(points, points.map(() => size), NIB_SAMPLE_STEP);
+  const cos = Math.cos(nib.angle);
+  const sin = Math.sin(nib.angle);
+  const hu = { x: (cos * size) / 2, y: (sin * size) / 2 };
+  const hv = { x: (-sin * size * nib.aspect) / 2, y: (cos * size * nib.aspect) / 2 };
+  const corners = (p: Vec): Vec[] => [
+    { x: p.x + hu.x + hv.x, y: p.y + hu.y + hv.y },
+    { x: p.x + hu.x - hv.x, y: p.y + hu.y - hv.y },
+    { x: p.x - hu.x - hv.x, y: p.y - hu.y - hv.y },
+    { x: p.x - hu.x + hv.x, y: p.y - hu.y + hv.y },
+  ];
+  if (samples.length === 1) return toPath(convexHull(corners(samples[0])));
+  const parts: string[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    parts.push(toPath(convexHull([...corners(samples[i - 1]), ...corners(samples[i])])));
+  }
+  return parts.join(' ');
+}
+
+/** Le marker garde une épaisseur constante */
+const getMarkerSamples = (stroke: Stroke) =>
+  sampleSmoothCurve(stroke.points, stroke.points.map(() => stroke.strokeWidth));
+
+/**
+ * Contour plein d'un tracé à main levée : la calligraphie suit sa plume, le pen
+ * (et les anciens tracés calligraphie, sans plume) passent par le générateur
+ * freehand, le marker garde une épaisseur constante.
+ */
+export function getStrokeOutline(stroke: Stroke): string {
+  if (stroke.points.length === 0) return '';
+  if (stroke.brushType === 'calligraphy' && stroke.nib) {
+    return getNibOutline(stroke.points, stroke.strokeWidth, stroke.nib);
+  }
+  if (stroke.brushType === 'marker') {
+    return getOutlinePath(getMarkerSamples(stroke));
+  }
+  return getOutlinePath(getFreehandSamples(stroke.points, getFreehandOptions(stroke)));
+}
+
+/** Géométrie de rendu d'un tracé (hors textes, rendus à part) */
+export function getStrokeGeometry(stroke: Stroke): StrokeGeometry {
+  const opacity = stroke.opacity ?? 1;
+  if (isShapeType(stroke.brushType)) {
+    return {
+      path: stroke.pathData,
+      fill: stroke.closed && stroke.filled ? stroke.pathData : undefined,
+      opacity,
+    };
+  }
+  if (stroke.brushType === 'marker') {
+    // Surligneur (défaut, et anciens tracés) : opacité uniforme sur tout le tracé
+    if (stroke.markerMode === 'buildup') {
+      return {
+        pieces: getOutlinePieces(getMarkerSamples(stroke), stroke.strokeWidth),
+        opacity: MARKER_OPACITY * opacity,
+      };
+    }
+    return { outline: getStrokeOutline(stroke), opacity: MARKER_OPACITY * opacity };
+  }
+  return { outline: getStrokeOutline(stroke), opacity };
+}
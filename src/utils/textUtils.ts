@@ -0,0 +1,81 @@
+import { Point, Stroke, TextData } from '../types';
+
+export const TEXT_LINE_HEIGHT = 1.25;
+// Largeur moyenne d'un caractère rapportée à la taille de police (police sans-serif)
+const CHAR_WIDTH_RATIO = 0.6;
+export const DEFAULT_FONT_SIZE = 24;
+
+export function getTextLines(content: string): string[] {
+  return content.split('\n');
+}
+
+/** Dimensions estimées du cadre d'un texte (non tourné) */
+export function measureText(content: string, fontSize: number): { width: number; height: number } {
+  const lines = getTextLines(content);
+  const longest = Math.max(1, ...lines.map(l => l.length));
+  return {
+    width: longest * fontSize * CHAR_WIDTH_RATIO,
+    height: lines.length * fontSize * TEXT_LINE_HEIGHT,
+  };
+}
+
+/**
+ * Les 4 coins du cadre (haut-gauche, haut-droit, bas-droit, bas-gauche),
+ * tournés autour du coin haut-gauche. Ce sont les points du tracé texte :
+ * bounding box, hit-testing et transformations fonctionnent comme pour un tracé.
+ */
+export function getTextBoxPoints(anchor: { x: number; y: number }, text: TextData): Point[] {
+  const { width, height } = measureText(text.content, text.fontSize);
+  const cos = Math.cos(text.rotation);
+  const sin = Math.sin(text.rotation);
+  const corner = (dx: number, dy: number): Point => ({
+    x: anchor.x + dx * cos - dy * sin,
+    y: anchor.y + dx * sin + dy * cos,
+    pressure: 0.5,
+  });
+  return [corner(0, 0), corner(width, 0), corner(width, height), corner(0, height)];
+}
+
+/**
+ * Recalcule position, rotation et taille de police après une transformation
+ * appliquée aux coins du cadre. La taille suit l'échelle verticale du cadre.
+ */
+export function syncTextWithPoints(stroke: Stroke, previous: Stroke): Stroke {
+  if (!stroke.text || !previous.text || stroke.points.length < 4) return stroke;
+  const [tl, tr, , bl] = stroke.points;
+  const [ptl, , , pbl] = previous.points;
+  const prevHeight = Math.hypot(pbl.x - ptl.x, pbl.y - ptl.y) || 1;
+  const scale = Math.hypot(bl.x - tl.x, bl.y - tl.y) / prevHeight;
+  const text: TextData = {
+    ...stroke.text,
+    fontSize: Math.max(1, previous.text.fontSize * scale),
+    rotation: Math.atan2(tr.y - tl.y, tr.x - tl.x),
+  };
+  // Cadre régénéré : un redimensionnement non uniforme ne déforme pas le texte
+  return { ...stroke, text, points: getTextBoxPoints(tl, text) };
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Élément SVG <text> (une <tspan> par ligne), mêmes métriques que le rendu Skia.
+ */
+export function getTextSvg(stroke: Stroke, precision = 2): string {
+  if (!stroke.text || stroke.points.length === 0) return '';
+  const { content, fontSize, rotation } = stroke.text;
+  const { x, y } = stroke.points[0];
+  const deg = (rotation * 180) / Math.PI;
+  const tspans = getTextLines(content)
+    .map(
+      (line, i) =>
+        `<tspan x="${x.toFixed(precision)}" y="${(y + fontSize * (TEXT_LINE_HEIGHT * i + 1)).toFixed(precision)}">${escapeXml(line)}</tspan>`
+    )
+    .join('');
+  const opacity = stroke.opacity !== undefined && stroke.opacity < 1 ? ` opacity="${stroke.opacity}"` : '';
+  return `<text font-family="sans-serif" font-size="${fontSize.toFixed(precision)}" fill="${stroke.color}"${opacity} transform="rotate(${deg.toFixed(precision)} ${x.toFixed(precision)} ${y.toFixed(precision)})">${tspans}</text>`;
+}